@@ -0,0 +1,195 @@
+/**
+ * @file actorStore.ts
+ * @brief This file contains the actor store: the actors of a game indexed by id, by position and by type.
+ *
+ * Like a list of actors, a store is never modified and keeps the order the actors were added in.
+ * Finding, replacing or removing an actor takes a few steps instead of a walk through every actor.
+ */
+
+import { Actor, ActorType } from "./actors";
+import { IntMap, emptyIntMap, intMapGet, intMapSet, intMapRemove, intMapValues } from "../common/intMap";
+import { List, arrayToList, listToArray } from "../common/list";
+import { Position, positionKey } from "../common/position";
+
+/**
+ * @brief The actors of a game, indexed by id, by position and by type.
+ *
+ * Every actor gets a rank when it is added to the store, the actors of the indexes are stored by rank to keep the order of the store.
+ */
+type ActorStore = {
+    readonly actors: IntMap<Actor>;                         /** The actors, by rank. */
+    readonly ranks: IntMap<number>;                         /** The rank of the actors, by id. */
+    readonly cells: IntMap<IntMap<Actor>>;                  /** The actors standing on each cell, by key of the cell then by rank. */
+    readonly types: Partial<Record<ActorType, IntMap<Actor>>>; /** The actors of each type, by rank. */
+    readonly nextRank: number;                              /** The rank of the next added actor. */
+}
+
+/**
+ * @brief The lists of the actors of the stores already asked for, so that the same store always gives the same list.
+ */
+const storeLists: WeakMap<ActorStore, List<Actor>> = new WeakMap();
+
+/**
+ * @brief Returns an empty store.
+ *
+ * @returns {ActorStore} A store without any actor.
+ */
+const emptyActorStore = (): ActorStore => ({ actors: emptyIntMap(), ranks: emptyIntMap(), cells: emptyIntMap(), types: {}, nextRank: 0 });
+
+/**
+ * @brief Returns the store with an actor indexed under its rank.
+ *
+ * @param {ActorStore} store - The store, where the rank of the actor is already recorded.
+ * @param {Actor} anActor - The actor to index.
+ * @param {number} rank - The rank of the actor.
+ * @returns {ActorStore} The store with the actor in every index.
+ */
+function indexActor(store: ActorStore, anActor: Actor, rank: number): ActorStore {
+    const key = positionKey(anActor.position);
+    return {
+        ...store,
+        actors: intMapSet(store.actors, rank, anActor),
+        cells: intMapSet(store.cells, key, intMapSet(intMapGet(store.cells, key) ?? emptyIntMap(), rank, anActor)),
+        types: { ...store.types, [anActor.type]: intMapSet(store.types[anActor.type] ?? emptyIntMap(), rank, anActor) }
+    };
+}
+
+/**
+ * @brief Returns the store without an actor in its indexes.
+ *
+ * @param {ActorStore} store - The store.
+ * @param {Actor} anActor - The actor to take out of the indexes.
+ * @param {number} rank - The rank of the actor.
+ * @returns {ActorStore} The store without the actor in any index, its rank being still recorded.
+ */
+function unindexActor(store: ActorStore, anActor: Actor, rank: number): ActorStore {
+    const key = positionKey(anActor.position);
+    const cell = intMapRemove(intMapGet(store.cells, key) ?? emptyIntMap<Actor>(), rank);
+    return {
+        ...store,
+        actors: intMapRemove(store.actors, rank),
+        cells: cell.size === 0 ? intMapRemove(store.cells, key) : intMapSet(store.cells, key, cell),
+        types: { ...store.types, [anActor.type]: intMapRemove(store.types[anActor.type] ?? emptyIntMap(), rank) }
+    };
+}
+
+/**
+ * @brief Returns the actor with an id.
+ *
+ * @param {ActorStore} store - The store.
+ * @param {number} anId - The id of the actor.
+ * @returns {Actor | undefined} The actor, undefined if the store does not hold it.
+ */
+function getStoredActor(store: ActorStore, anId: number): Actor | undefined {
+    const rank = intMapGet(store.ranks, anId);
+    return rank === undefined ? undefined : intMapGet(store.actors, rank);
+}
+
+/**
+ * @brief Adds an actor after the other actors of a store.
+ *
+ * @param {ActorStore} store - The store.
+ * @param {Actor} anActor - The actor to add.
+ * @returns {ActorStore} A new store with the actor.
+ * @throws An error if the store already holds an actor with the same id.
+ */
+function addStoredActor(store: ActorStore, anActor: Actor): ActorStore {
+    if (getStoredActor(store, anActor.id))
+        throw new Error(`Actor ${anActor.id} is already in the store`);
+    return indexActor({ ...store, ranks: intMapSet(store.ranks, anActor.id, store.nextRank), nextRank: store.nextRank + 1 }, anActor, store.nextRank);
+}
+
+/**
+ * @brief Replaces the actor with the same id as `newActor` in a store, keeping its place in the order of the store.
+ *
+ * @param {ActorStore} store - The store.
+ * @param {Actor} newActor - The actor to replace the stored actor with.
+ * @returns {ActorStore} A new store with the actor replaced, the same store if it does not hold the actor.
+ */
+function replaceStoredActor(store: ActorStore, newActor: Actor): ActorStore {
+    const rank = intMapGet(store.ranks, newActor.id);
+    const oldActor = rank === undefined ? undefined : intMapGet(store.actors, rank);
+    if (rank === undefined || !oldActor)
+        return store;
+    return indexActor(unindexActor(store, oldActor, rank), newActor, rank);
+}
+
+/**
+ * @brief Removes the actor with an id from a store.
+ *
+ * @param {ActorStore} store - The store.
+ * @param {number} anId - The id of the actor to remove.
+ * @returns {ActorStore} A new store without the actor, the same store if it does not hold the actor.
+ */
+function removeStoredActor(store: ActorStore, anId: number): ActorStore {
+    const rank = intMapGet(store.ranks, anId);
+    const oldActor = rank === undefined ? undefined : intMapGet(store.actors, rank);
+    if (rank === undefined || !oldActor)
+        return store;
+    return { ...unindexActor(store, oldActor, rank), ranks: intMapRemove(store.ranks, anId) };
+}
+
+/**
+ * @brief Returns a store holding the actors of a list, in the same order.
+ *
+ * @param {List<Actor>} actors - The list of actors.
+ * @returns {ActorStore} The store of the actors.
+ * @throws An error if two actors of the list have the same id.
+ */
+const createActorStore = (actors: List<Actor>): ActorStore => listToArray(actors).reduce(addStoredActor, emptyActorStore());
+
+/**
+ * @brief Returns the actors of a store, in the order they were added.
+ *
+ * A store always gives the same list, so the list can be used as a key to cache what is computed from the actors (see flowField.ts).
+ *
+ * @param {ActorStore} store - The store.
+ * @returns {List<Actor>} The list of the actors.
+ */
+function storeToList(store: ActorStore): List<Actor> {
+    if (!storeLists.has(store))
+        storeLists.set(store, arrayToList(intMapValues(store.actors)));
+    return storeLists.get(store);
+}
+
+/**
+ * @brief Returns the number of actors of a store.
+ *
+ * @param {ActorStore} store - The store.
+ * @returns {number} The number of actors.
+ */
+const getStoreSize = (store: ActorStore): number => store.actors.size;
+
+/**
+ * @brief Returns the actors standing on a position.
+ *
+ * @param {ActorStore} store - The store.
+ * @param {Position} pos - The position.
+ * @returns {List<Actor>} The actors on the position, in the order of the store.
+ */
+const getStoredActorsAtPos = (store: ActorStore, pos: Position): List<Actor> =>
+    arrayToList(intMapValues(intMapGet(store.cells, positionKey(pos)) ?? emptyIntMap()));
+
+/**
+ * @brief Returns the actors of a type.
+ *
+ * @param {ActorStore} store - The store.
+ * @param {ActorType} type - The type of the actors.
+ * @returns {List<Actor>} The actors of the type, in the order of the store.
+ */
+const getStoredActorsByType = (store: ActorStore, type: ActorType): List<Actor> =>
+    arrayToList(intMapValues(store.types[type] ?? emptyIntMap()));
+
+export {
+    ActorStore,
+    emptyActorStore,
+    createActorStore,
+    storeToList,
+    getStoreSize,
+    getStoredActor,
+    addStoredActor,
+    replaceStoredActor,
+    removeStoredActor,
+    getStoredActorsAtPos,
+    getStoredActorsByType
+};
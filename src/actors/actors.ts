@@ -3,23 +3,16 @@
  * @brief This file contains the implementation of the Actor type and its related functions.
  */
 
-import { Position, createPosition, positionEquals, translatePosition } from "../common/position";
-import { World } from "../world/world";
-import { List, appendList, cons, emptyList, listLength, readListAt, listFoldR, isEmpty, head, tail, arrayToList, concatList } from "../common/list";
-import { pathfinding } from "../common/graph";
-import { AttackProposal, HealProposal, MoveProposal, PhaseAction, SpawnProposal } from "../engine/phases";
-import {
-    remyWithSpoon,
-    hungryRemyWithSpoon,
-    remyThrowingCheese,
-    gusteauWithPan,
-    angryGusteauWithPan,
-    veryAngryGusteauWithPan,
-    linguini,
-    marmite,
-    worktop,
-    hole
-} from "./actorsTemplate";
+import { Position, createPosition } from "../common/position";
+import { World, getWorldRng, isInWorld, neighborOffsets } from "../world/world";
+import { List, appendList, cons, emptyList, listFoldR, isEmpty, head, tail, arrayToList, listToArray, listLength, randomList } from "../common/list";
+import { Rng, splitRng } from "../common/random";
+import { getFlowField, getFlowNext } from "../world/flowField";
+import { getActorsInCell, getActorsInRadius, getNeighboursInHash, getSpatialHash } from "../world/spatialHash";
+import { StatusEffect } from "./effects";
+import { TargetingPolicy } from "./targeting";
+import { Flight } from "./projectiles";
+import { AttackProposal, HealProposal, MoveProposal, PhaseAction, SpawnProposal } from "./proposals";
 
 /**
  * @brief A unique identifier for an actor.
@@ -29,16 +22,27 @@ let id_value: number = 0;
 /**
  * @brief The type of an actor.
  */
-type ActorType = "ENEMY" | "TOWER" | "SPAWNER" | "GOAL" | "WALL" | "UNKNOWN"
+type ActorType = "ENEMY" | "TOWER" | "SPAWNER" | "GOAL" | "WALL" | "PROJECTILE" | "UNKNOWN"
 
 /**
  * @brief The actions an actor can perform during a phase.
+ *
+ * Besides the built-in phases, an actor can act during any phase registered with registerPhase, through the action named after the phase in `custom`.
  */
 type ActorActions = {
     move?: PhaseAction<MoveProposal>;
     attack?: PhaseAction<AttackProposal>;
     spawn?: PhaseAction<SpawnProposal>;
     heal?: PhaseAction<HealProposal>;
+    custom?: Readonly<Record<string, PhaseAction<unknown>>>;
+}
+
+/**
+ * @brief The next tier of an actor.
+ */
+type ActorUpgrade = {
+    readonly template: string;      /** The name of the template of the next tier (see the template registry). */
+    readonly cost: number;          /** The price paid by the player for the upgrade. */
 }
 
 /**
@@ -51,6 +55,14 @@ type Actor = {
     readonly name: string;          /** The name of the actor. */
     readonly health: number;        /** The current health of the actor. */
     readonly maxHealth: number;     /** The maximum health of the actor. */
+    readonly cost?: number;         /** The price paid by the player to place the actor, if it can be bought. */
+    readonly bounty?: number;       /** The money earned by the player when the actor is killed. */
+    readonly upgrade?: ActorUpgrade; /** The next tier of the actor, if it can be upgraded. */
+    readonly effects?: List<StatusEffect>; /** The status effects the actor is under. */
+    readonly targeting?: TargetingPolicy; /** The way the actor picks its target among the actors in range, RANDOM if missing. */
+    readonly targetingOverride?: TargetingPolicy; /** The policy chosen by the player, used instead of `targeting` and kept by the upgrades. */
+    readonly flight?: Flight;       /** The flight of the actor, if it is a projectile. */
+    readonly lineOfSight?: boolean; /** True if the actor only attacks the actors it sees, false or missing if it attacks through walls. */
     readonly actions: ActorActions; /** The actions the actor can perform during a phase. */
 }
 
@@ -61,6 +73,22 @@ type Actor = {
  */
 const getNewId: () => number = () => id_value++;
 
+/**
+ * @brief Returns the identifier the next created actor will get, without using it.
+ *
+ * @returns {number} The identifier of the next created actor.
+ */
+const getNextId = (): number => id_value;
+
+/**
+ * @brief Restarts the identifiers given to new actors, so that a new game numbers its actors the same way every time.
+ *
+ * @param {number} nextId - The identifier of the next created actor (0 by default).
+ */
+function resetIds(nextId: number = 0): void {
+    id_value = nextId;
+}
+
 /**
  * @brief Creates a new copy of an actor with a new, unused identifier.
  *
@@ -153,15 +181,9 @@ function replaceActor(actors: List<Actor>, newActor: Actor): List<Actor> {
  *
  * @param {List<Actor>} actors - The list of actors to search.
  * @param {Position} pos - The position to search for.
- * @returns {List<Actor>} A new list of actors with the same position as the input position.
+ * @returns {List<Actor>} A new list of actors with the same position as the input position, in the order of `actors`.
  */
-function getActorsAtPos(actors: List<Actor>, pos: Position): List<Actor> {
-    return listFoldR(function (acc: List<Actor>, elt: Actor) {
-        if (positionEquals(elt.position, pos))
-            return cons(elt, acc);
-        return acc;
-    }, emptyList(), actors);
-}
+const getActorsAtPos = (actors: List<Actor>, pos: Position): List<Actor> => getActorsInCell(getSpatialHash(actors), pos);
 
 /**
  * @brief Returns a list of actors that are in the 8 positions around the actor
@@ -170,36 +192,31 @@ function getActorsAtPos(actors: List<Actor>, pos: Position): List<Actor> {
  * @param actors The list of actors to search through
  * @return {List<Actor>} The list of actors found around the specified actor
  */
-function getNeighbors(anActor: Actor, actors: List<Actor>): List<Actor> {
-    const listPos: List<Position> = arrayToList([
-        translatePosition(anActor.position, -1, -1),
-        translatePosition(anActor.position, -1, 0),
-        translatePosition(anActor.position, -1, 1),
-        translatePosition(anActor.position, 0, -1),
-        translatePosition(anActor.position, 0, 1),
-        translatePosition(anActor.position, 1, -1),
-        translatePosition(anActor.position, 1, 0),
-        translatePosition(anActor.position, 1, 1),
-    ]);
-    return listFoldR((acc: List<Actor>, pos) => concatList(acc, getActorsAtPos(actors, pos)), emptyList(), listPos);
-}
+const getNeighbors = (anActor: Actor, actors: List<Actor>): List<Actor> => getNeighboursInHash(getSpatialHash(actors), anActor.position);
 
 /**
  * @brief Randomly choses one of the neighbors of an actor.
  *
  * @param anActor The actor whose neighbors to choose from.
  * @param actors A list of actors to check for neighbors.
+ * @param rng The random number generator to choose with.
  * @return The randomly chosen neighbor.
  */
-function chooseNeighbor(anActor: Actor, actors: List<Actor>): Actor | undefined {
-    const listNeigh: List<Actor> = getNeighbors(anActor, actors);
-    if (isEmpty(listNeigh))
-        return undefined;
-    const len: number = listLength(listNeigh);
-    const n: number = Math.floor(Math.random() * len);
-    return readListAt(listNeigh, n);
+function chooseNeighbor(anActor: Actor, actors: List<Actor>, rng: Rng): Actor | undefined {
+    return randomList(getNeighbors(anActor, actors), rng);
 }
 
+/**
+ * @brief Returns the random number generator an actor draws from during the current phase.
+ *
+ * Every actor gets its own generator, derived from the one of the world and the actor id.
+ *
+ * @param anActor The actor drawing numbers.
+ * @param aWorld The world holding the generator of the game.
+ * @return The generator of the actor.
+ */
+const getActorRng = (anActor: Actor, aWorld: World): Rng => splitRng(getWorldRng(aWorld), anActor.id);
+
 /**
  * @brief Returns a list of goals for the enemies to approach.
  *
@@ -261,14 +278,12 @@ function getActorsByType(actors: List<Actor>, type: ActorType): List<Actor> {
  * @param actors A list of actors to filter
  * @param actor The actor to measure distance from
  * @param range The maximum distance from the specified actor to include in the result list
- * @return A new list of actors containing only the actors within the specified range of the specified actor
+ * @return A new list of actors containing only the actors within the specified range of the specified actor,
+ * from the last one of `actors` to the first one
  */
 function getAllActorsInRange(actors: List<Actor>, actor: Actor, range: number): List<Actor> {
-    return listFoldR(function (acc: List<Actor>, elt) {
-        if (actorDistance(elt, actor) <= range && elt.id !== actor.id)
-            return appendList(acc, elt);
-        return acc;
-    }, emptyList(), actors);
+    const inRange = listToArray(getActorsInRadius(getSpatialHash(actors), actor.position, range)).filter((elt) => elt.id !== actor.id);
+    return arrayToList(inRange.reverse());
 }
 
 /**
@@ -286,23 +301,79 @@ function removeActor(actors: List<Actor>, id: number): List<Actor> {
     return cons(head(actors), removeActor(tail(actors), id));
 }
 
+/**
+ * @brief Returns the action of an actor during a phase, a built-in action or a custom one.
+ *
+ * @param anActor The actor.
+ * @param phase The name of the phase.
+ * @return The action named after the phase, undefined if the actor does not act during the phase.
+ */
+function getPhaseAction(anActor: Actor, phase: string): PhaseAction<unknown> | undefined {
+    if (phase === "move" || phase === "attack" || phase === "spawn" || phase === "heal")
+        return anActor.actions[phase];
+    return anActor.actions.custom?.[phase];
+}
+
+/**
+ * @brief Checks whether an actor stops the enemies from walking through its cell.
+ *
+ * @param anActor The actor to check.
+ * @return True if the actor is neither an enemy, a goal nor a projectile.
+ */
+const blocksEnemies = (anActor: Actor): boolean => anActor.type !== "ENEMY" && anActor.type !== "GOAL" && anActor.type !== "PROJECTILE";
+
 /**
  * @brief Checks if a position is walkable by enemy actors.
  *
  * This function takes a list of actors and a position as input and returns whether the position is walkable by enemy actors.
+ * Enemies walk through goals, other enemies and projectiles.
  *
  * @param actors The list of actors to check against.
  * @param pos The position to check for walkability.
  * @return Whether the position is walkable by enemy actors.
  */
 function isWalkableByEnemy(actors: List<Actor>, pos: Position) {
-    return listFoldR((acc, actor) => actor.type === "ENEMY" || actor.type === "GOAL" ? acc : false, true, getActorsAtPos(actors, pos));
+    return listFoldR((acc, actor) => blocksEnemies(actor) ? false : acc, true, getActorsAtPos(actors, pos));
 }
 
+/**
+ * @brief The number of enemies a cell can hold at the end of a move.
+ */
+const cellCapacity = 1;
+
+/**
+ * @brief Checks whether an actor can be spawned on a position, given the actors standing on it.
+ *
+ * @param {World} aWorld - The game world.
+ * @param {List<Actor>} occupants - The actors standing on the position.
+ * @param {Position} position - The position of the spawned actor.
+ * @returns {boolean} True if an actor can be spawned on the position.
+ */
+function canSpawnAmong(aWorld: World, occupants: List<Actor>, position: Position): boolean {
+    if (!isInWorld(aWorld, position))
+        return false;
+    if (listFoldR((acc, anActor) => acc || (anActor.type !== "ENEMY" && anActor.type !== "SPAWNER" && anActor.type !== "PROJECTILE"), false, occupants))
+        return false;
+    return listLength(getActorsByType(occupants, "ENEMY")) < cellCapacity;
+}
+
+/**
+ * @brief Returns the cells a spawner can emit actors on: its own cell, then its neighbour cells.
+ *
+ * @param {World} aWorld - The game world.
+ * @param {List<Actor>} actors - The list of actors.
+ * @param {Position} spawner - The position of the spawner.
+ * @returns {Position[]} The cells of the spawner an actor can be spawned on.
+ */
+const getSpawnCells = (aWorld: World, actors: List<Actor>, spawner: Position): Position[] =>
+    [createPosition(spawner.x, spawner.y), ...neighborOffsets.slice(0, aWorld.graph.connectivity ?? 4).map(([dx, dy]) => createPosition(spawner.x + dx, spawner.y + dy))]
+        .filter((position) => canSpawnAmong(aWorld, getActorsAtPos(actors, position), position));
+
 /**
  * @brief Gets the next position for an enemy actor to move towards.
  *
- * This function takes an `Actor`, a list of `Actor`s, and a `World` as input and returns the next position that the enemy actor should move towards in order to approach the closest goal.
+ * This function takes an `Actor`, a list of `Actor`s, and a `World` as input and returns the next position that the enemy actor should move towards in order to approach the goal with the cheapest walk.
+ * The walks of every cell are computed once in the flow field of the actors (see flowField.ts), shared by all the enemies.
  *
  * @param actor The `Actor` for which to determine the next position.
  * @param actors The list of `Actor`s to search for goals and neighbors.
@@ -310,73 +381,18 @@ function isWalkableByEnemy(actors: List<Actor>, pos: Position) {
  * @return The next position that the enemy actor should move towards.
  */
 function getNextEnemyPos(actor: Actor, actors: List<Actor>, world: World): Position {
-    const goal = chooseGoal(actor, actors);
-    if (!goal)
-        return actor.position;
-    const path = pathfinding(actor.position, goal.position, world.graph, actors);
-    if (isEmpty(path) || isEmpty(tail(path)))
-        return actor.position;
-    return head(tail(path)).pos;
-}
-
-/**
- * @brief Initializes the list of actors for the world. This function creates copies of predefined actors and returns them as a list.
- *
- * @param aWorld The world for which the actors need to be initialized.
- * @return A list of actors for the given world.
-*/
-function initializeActors(aWorld: World): List<Actor> {
-    return arrayToList([
-        copyNewActor(setActorPosition(worktop, createPosition(0,10))),
-        copyNewActor(setActorPosition(worktop, createPosition(1,10))),
-        copyNewActor(setActorPosition(worktop, createPosition(3,10))),
-        copyNewActor(setActorPosition(worktop, createPosition(4,10))),
-        copyNewActor(setActorPosition(worktop, createPosition(5,10))),
-        copyNewActor(setActorPosition(worktop, createPosition(8,10))),
-        copyNewActor(setActorPosition(worktop, createPosition(9,10))),
-        copyNewActor(setActorPosition(worktop, createPosition(10,10))),
-        copyNewActor(setActorPosition(marmite, createPosition(2,10))),
-        copyNewActor(setActorPosition(marmite, createPosition(6,10))),
-        copyNewActor(setActorPosition(marmite, createPosition(7,10))),
-
-        copyNewActor(setActorPosition(worktop, createPosition(0,0))),
-        copyNewActor(setActorPosition(worktop, createPosition(1,0))),
-        copyNewActor(setActorPosition(worktop, createPosition(2,0))),
-        copyNewActor(setActorPosition(worktop, createPosition(3,0))),
-        copyNewActor(setActorPosition(worktop, createPosition(5,0))),
-        copyNewActor(setActorPosition(worktop, createPosition(7,0))),
-        copyNewActor(setActorPosition(worktop, createPosition(9,0))),
-        copyNewActor(setActorPosition(worktop, createPosition(10,0))),
-        copyNewActor(setActorPosition(marmite, createPosition(4,0))),
-        copyNewActor(setActorPosition(marmite, createPosition(6,0))),
-        copyNewActor(setActorPosition(marmite, createPosition(8,0))),
-
-        copyNewActor(setActorPosition(hole, createPosition(0, 5))),
-
-        copyNewActor(setActorPosition(remyWithSpoon, createPosition(0, 5))),
-        copyNewActor(setActorPosition(remyWithSpoon, createPosition(0, 4))),
-        copyNewActor(setActorPosition(remyWithSpoon, createPosition(0, 6))),
-        copyNewActor(setActorPosition(remyThrowingCheese, createPosition(1, 7))),
-        copyNewActor(setActorPosition(remyThrowingCheese, createPosition(1, 3))),
-
-        copyNewActor(setActorPosition(gusteauWithPan, createPosition(5,5))),
-        copyNewActor(setActorPosition(gusteauWithPan, createPosition(5,4))),
-        copyNewActor(setActorPosition(gusteauWithPan, createPosition(5,6))),
-        copyNewActor(setActorPosition(gusteauWithPan, createPosition(6,7))),
-        copyNewActor(setActorPosition(gusteauWithPan, createPosition(6,3))),
-        copyNewActor(setActorPosition(gusteauWithPan, createPosition(9,2))),
-        copyNewActor(setActorPosition(gusteauWithPan, createPosition(9,8))),
-
-        copyNewActor(setActorPosition(linguini, createPosition(8,5))),
-    ]);
+    return getFlowNext(getFlowField(world, actors), actor.position) ?? actor.position;
 }
 
 export {
     ActorType,
     ActorActions,
+    ActorUpgrade,
     Actor,
     copyNewActor,
     copyActor,
+    getNextId,
+    resetIds,
     setLifePoint,
     setActorPosition,
     getActorById,
@@ -384,13 +400,18 @@ export {
     getActorsAtPos,
     getNeighbors,
     chooseNeighbor,
+    getActorRng,
     getGoals,
     actorDistance,
     chooseGoal,
     getActorsByType,
-    initializeActors,
     removeActor,
+    getPhaseAction,
+    blocksEnemies,
     isWalkableByEnemy,
+    cellCapacity,
+    canSpawnAmong,
+    getSpawnCells,
     getAllActorsInRange,
     getNextEnemyPos
 };
\ No newline at end of file
@@ -1,6 +1,11 @@
-import { randomList, concatList, cons, emptyList, head } from "../common/list";
+import { randomList, concatList, cons, emptyList, head, arrayToList, listToArray } from "../common/list";
 import { createPosition } from "../common/position";
-import { Actor, setActorPosition, getActorsByType, chooseNeighbor, setLifePoint, copyActor, getAllActorsInRange, getNextEnemyPos, copyNewActor } from "./actors";
+import { getDueSpawns } from "../world/waves";
+import { createActorFromTemplate } from "./templateRegistry";
+import { chooseTarget } from "./targeting";
+import { chainAttack, ringAttack, splashAttack } from "./attacks";
+import { getActorsInSight } from "../world/lineOfSight";
+import { Actor, setActorPosition, getActorsByType, getAllActorsInRange, getNextEnemyPos, getActorRng, getSpawnCells } from "./actors";
 
 const remyWithSpoon: Actor = {
     id: -1,
@@ -9,10 +14,11 @@ const remyWithSpoon: Actor = {
     name: "Remy with a Spoon",
     health: 200,
     maxHealth: 200,
+    bounty: 10,
     actions: {
         move: (anActor, aWorld, actors) => setActorPosition(anActor, getNextEnemyPos(anActor, actors, aWorld)),
-        attack: function (anActor, _aWorld, actors) {
-            const target = randomList(concatList(getActorsByType(getAllActorsInRange(actors, anActor, 1), "GOAL"), getActorsByType(getAllActorsInRange(actors, anActor, 1), "TOWER")));
+        attack: function (anActor, aWorld, actors) {
+            const target = randomList(concatList(getActorsByType(getAllActorsInRange(actors, anActor, 1), "GOAL"), getActorsByType(getAllActorsInRange(actors, anActor, 1), "TOWER")), getActorRng(anActor, aWorld));
             if (target)
                 return cons({ id: target.id, damage: 20 }, emptyList());
             return undefined;
@@ -28,12 +34,13 @@ const hungryRemyWithSpoon: Actor = {
     name: "Hungry Remy with a Spoon",
     health: 500,
     maxHealth: 500,
+    bounty: 25,
     actions: {
         move: (anActor, aWorld, actors) => setActorPosition(anActor, getNextEnemyPos(anActor, actors, aWorld)),
-        attack: function (anActor, _aWorld, actors) {
-            const target = randomList(concatList(getActorsByType(getAllActorsInRange(actors, anActor, 1), "GOAL"), getActorsByType(getAllActorsInRange(actors, anActor, 1), "TOWER")));
+        attack: function (anActor, aWorld, actors) {
+            const target = randomList(concatList(getActorsByType(getAllActorsInRange(actors, anActor, 1), "GOAL"), getActorsByType(getAllActorsInRange(actors, anActor, 1), "TOWER")), getActorRng(anActor, aWorld));
             if (target)
-                return cons({ id: target.id, damage: 50 }, emptyList());
+                return cons({ id: target.id, damage: 50, effect: { kind: "POISON", turns: 3, damage: 5 } }, emptyList());
             return undefined;
         },
         heal: (anActor, _aWorld, _actors) => cons({ id: anActor.id, heal: 10 }, emptyList()),
@@ -47,12 +54,14 @@ const remyThrowingCheese: Actor = {
     name: "Remy Throwing Cheese",
     health: 200,
     maxHealth: 200,
+    bounty: 15,
+    lineOfSight: true,
     actions: {
         move: (anActor, aWorld, actors) => setActorPosition(anActor, getNextEnemyPos(anActor, actors, aWorld)),
-        attack: function (anActor, _aWorld, actors) {
-            const target = randomList(concatList(getActorsByType(getAllActorsInRange(actors, anActor, 3), "GOAL"), getActorsByType(getAllActorsInRange(actors, anActor, 1), "TOWER")));
+        attack: function (anActor, aWorld, actors) {
+            const target = randomList(concatList(getActorsByType(getActorsInSight(actors, anActor, 3), "GOAL"), getActorsByType(getActorsInSight(actors, anActor, 1), "TOWER")), getActorRng(anActor, aWorld));
             if (target)
-            return cons({ id: target.id, damage: 10 }, emptyList());
+                return cons({ id: target.id, damage: 10, projectile: { template: "thrownCheese", speed: 2 } }, emptyList());
             return undefined;
         },
         heal: (anActor, _aWorld, _actors) => cons({ id: anActor.id, heal: 10 }, emptyList()),
@@ -67,9 +76,13 @@ const gusteauWithPan: Actor = {
     name: "Gusteau with a Pan",
     health: 200,
     maxHealth: 200,
+    cost: 50,
+    upgrade: { template: "angryGusteauWithPan", cost: 80 },
+    targeting: "RANDOM",
+    lineOfSight: true,
     actions: {
-        attack: function (anActor, _aWorld, actors) {
-            const target = randomList(getActorsByType(getAllActorsInRange(actors, anActor, 2), "ENEMY"));
+        attack: function (anActor, aWorld, actors) {
+            const target = chooseTarget(anActor, getActorsByType(getActorsInSight(actors, anActor, 2), "ENEMY"), aWorld, actors);
             if (target)
                 return cons({ id: target.id, damage: 20 }, emptyList());
             return undefined;
@@ -85,11 +98,15 @@ const angryGusteauWithPan: Actor = {
     name: "Angry Gusteau with a Pan",
     health: 300,
     maxHealth: 300,
+    cost: 100,
+    upgrade: { template: "veryAngryGusteauWithPan", cost: 150 },
+    targeting: "FARTHEST_ALONG_PATH",
+    lineOfSight: true,
     actions: {
-        attack: function (anActor, _aWorld, actors) {
-            const target = randomList(getActorsByType(getAllActorsInRange(actors, anActor, 2), "ENEMY"));
+        attack: function (anActor, aWorld, actors) {
+            const target = chooseTarget(anActor, getActorsByType(getActorsInSight(actors, anActor, 2), "ENEMY"), aWorld, actors);
             if (target)
-                return cons({ id: target.id, damage: 30 }, emptyList());
+                return cons({ id: target.id, damage: 30, effect: { kind: "SLOW", turns: 2 } }, emptyList());
             return undefined;
         },
         heal: (anActor, _aWorld, _actors) => cons({ id: anActor.id, heal: 10 }, emptyList()),
@@ -103,17 +120,66 @@ const veryAngryGusteauWithPan: Actor = {
     name: "Very Angry Gusteau with a Pan",
     health: 500,
     maxHealth: 500,
+    cost: 200,
+    targeting: "STRONGEST",
+    lineOfSight: true,
     actions: {
-        attack: function (anActor, _aWorld, actors) {
-            const target = randomList(getActorsByType(getAllActorsInRange(actors, anActor, 2), "ENEMY"));
+        attack: function (anActor, aWorld, actors) {
+            const target = chooseTarget(anActor, getActorsByType(getActorsInSight(actors, anActor, 2), "ENEMY"), aWorld, actors);
             if (target)
-                return cons({ id: target.id, damage: 50 }, emptyList());
+                return cons({ id: target.id, damage: 50, effect: { kind: "FREEZE", turns: 1 } }, emptyList());
             return undefined;
         },
         heal: (anActor, _aWorld, _actors) => cons({ id: anActor.id, heal: 10 }, emptyList()),
     }
 };
 
+const skinnerWithSoup: Actor = {
+    id: -1,
+    position: createPosition(5, 4),
+    type: "TOWER",
+    name: "Skinner with a Soup",
+    health: 250,
+    maxHealth: 250,
+    cost: 120,
+    targeting: "NEAREST",
+    lineOfSight: true,
+    actions: {
+        attack: splashAttack({ range: 3, damage: 30, radius: 1 }),
+        heal: (anActor, _aWorld, _actors) => cons({ id: anActor.id, heal: 10 }, emptyList()),
+    }
+};
+
+const coletteWithKnives: Actor = {
+    id: -1,
+    position: createPosition(4, 5),
+    type: "TOWER",
+    name: "Colette with Knives",
+    health: 250,
+    maxHealth: 250,
+    cost: 150,
+    actions: {
+        attack: ringAttack({ range: 1.5, damage: 15 }),
+        heal: (anActor, _aWorld, _actors) => cons({ id: anActor.id, heal: 10 }, emptyList()),
+    }
+};
+
+const laloJugglingOnions: Actor = {
+    id: -1,
+    position: createPosition(4, 4),
+    type: "TOWER",
+    name: "Lalo juggling Onions",
+    health: 200,
+    maxHealth: 200,
+    cost: 130,
+    targeting: "FARTHEST_ALONG_PATH",
+    lineOfSight: true,
+    actions: {
+        attack: chainAttack({ range: 3, damage: 30, bounces: 3, bounceRange: 2, decay: 0.7 }),
+        heal: (anActor, _aWorld, _actors) => cons({ id: anActor.id, heal: 10 }, emptyList()),
+    }
+};
+
 const linguini: Actor = {
     id: -1,
     position: createPosition(8, 5),
@@ -148,7 +214,16 @@ const worktop: Actor = {
     }
 };
 
-//const 
+const thrownCheese: Actor = {
+    id: -1,
+    position: createPosition(0, 0),
+    type: "PROJECTILE",
+    name: "Thrown Cheese",
+    health: 1,
+    maxHealth: 1,
+    actions: {
+    }
+};
 
 const hole: Actor = {
     id: -1,
@@ -158,18 +233,15 @@ const hole: Actor = {
     health: 20,
     maxHealth: 20,
     actions: {
-        attack: (anActor, _aWorld, _actors) => cons({ id: anActor.id, damage: 1 }, emptyList()),
-        spawn: function (anActor, _aWorld, _actors) {
-            if (anActor.health % 3 === 0)
-                return copyNewActor(setActorPosition(remyWithSpoon, createPosition(0,5)));
-            return undefined;
+        spawn: function (anActor, aWorld, actors) {
+            const cells = getSpawnCells(aWorld, actors, anActor.position);
+            return arrayToList(listToArray(getDueSpawns(aWorld, anActor.position))
+                .slice(0, cells.length)
+                .map((due, i) => createActorFromTemplate(due.template, cells[i])));
         }
     }
 };
 
-//tour qui attaque tout les ennemy autour d'elle
-//tour qui attaque les ennemy avec des dégats de zone
-
 export {
     remyWithSpoon,
     hungryRemyWithSpoon,
@@ -177,8 +249,12 @@ export {
     gusteauWithPan,
     angryGusteauWithPan,
     veryAngryGusteauWithPan,
+    skinnerWithSoup,
+    coletteWithKnives,
+    laloJugglingOnions,
     linguini,
     worktop,
     marmite,
+    thrownCheese,
     hole
 };
@@ -0,0 +1,142 @@
+/**
+ * @file attacks.ts
+ * @brief This file contains the builders of the attacks hitting several enemies: splash, ring and chain.
+ */
+
+import { Actor, getActorsByType } from "./actors";
+import { StatusEffect } from "./effects";
+import { chooseTarget } from "./targeting";
+import { getActorsInSight } from "../world/lineOfSight";
+import { AttackProposal, PhaseAction } from "./proposals";
+import { List, arrayToList, emptyList, listToArray } from "../common/list";
+import { positionDistance } from "../common/position";
+
+/**
+ * @brief The options shared by every attack.
+ *
+ * @property {number} range - The distance up to which the attacker sees its targets.
+ * @property {number} damage - The damage dealt to the main target.
+ * @property {StatusEffect} effect - The status effect applied to every hit enemy, if any.
+ */
+type AttackOptions = {
+    readonly range: number;
+    readonly damage: number;
+    readonly effect?: StatusEffect;
+}
+
+/**
+ * @brief The options of a splash attack.
+ *
+ * @property {number} radius - The distance from the impact cell up to which the enemies are hit.
+ */
+type SplashOptions = AttackOptions & {
+    readonly radius: number;
+}
+
+/**
+ * @brief The options of a chain attack.
+ *
+ * @property {number} bounces - The number of enemies hit after the main target.
+ * @property {number} bounceRange - The distance up to which the attack bounces from an enemy to the next one.
+ * @property {number} decay - The ratio of the damage kept by every bounce.
+ */
+type ChainOptions = AttackOptions & {
+    readonly bounces: number;
+    readonly bounceRange: number;
+    readonly decay: number;
+}
+
+/**
+ * @brief Builds the proposal of an attack from the enemies it hits and their damage.
+ *
+ * The enemies whose damage rounds to 0 are left out.
+ *
+ * @param {[Actor, number][]} hits - The hit enemies and the damage dealt to each of them.
+ * @param {StatusEffect} effect - The status effect applied to every hit enemy, if any.
+ * @return {AttackProposal} The proposal of the attack.
+ */
+const hitsToProposal = (hits: [Actor, number][], effect?: StatusEffect): AttackProposal =>
+    arrayToList(hits
+        .map(([target, damage]) => ({ id: target.id, damage: Math.round(damage), ...(effect ? { effect: effect } : {}) }))
+        .filter((attack) => attack.damage > 0));
+
+/**
+ * @brief Returns the enemies in range of an attacker, and in sight if it requires line of sight.
+ *
+ * @param {Actor} anActor - The attacker.
+ * @param {List<Actor>} actors - The list of actors.
+ * @param {number} range - The range of the attacker.
+ * @return {List<Actor>} The enemies in range.
+ */
+const getEnemiesInRange = (anActor: Actor, actors: List<Actor>, range: number): List<Actor> =>
+    getActorsByType(getActorsInSight(actors, anActor, range), "ENEMY");
+
+/**
+ * @brief Builds an attack hitting the target of the attacker and the enemies around it.
+ *
+ * The target is picked with the targeting policy of the attacker. The damage falls off linearly with the distance
+ * from the impact cell: full on the target, and a fraction (radius + 1 - distance) / (radius + 1) of it around.
+ *
+ * @param {SplashOptions} options - The range, damage, effect and radius of the attack.
+ * @return {PhaseAction<AttackProposal>} The attack action.
+ */
+function splashAttack(options: SplashOptions): PhaseAction<AttackProposal> {
+    return function (anActor, aWorld, actors) {
+        const target = chooseTarget(anActor, getEnemiesInRange(anActor, actors, options.range), aWorld, actors);
+        if (!target)
+            return emptyList();
+        const hits = listToArray(getActorsByType(actors, "ENEMY"))
+            .map((enemy): [Actor, number] => [enemy, positionDistance(enemy.position, target.position)])
+            .filter(([, distance]) => distance <= options.radius)
+            .map(([enemy, distance]): [Actor, number] => [enemy, options.damage * (options.radius + 1 - distance) / (options.radius + 1)]);
+        return hitsToProposal(hits, options.effect);
+    };
+}
+
+/**
+ * @brief Builds an attack hitting every enemy in range with the same damage.
+ *
+ * @param {AttackOptions} options - The range, damage and effect of the attack.
+ * @return {PhaseAction<AttackProposal>} The attack action.
+ */
+function ringAttack(options: AttackOptions): PhaseAction<AttackProposal> {
+    return (anActor, _aWorld, actors) =>
+        hitsToProposal(listToArray(getEnemiesInRange(anActor, actors, options.range)).map((enemy) => [enemy, options.damage]), options.effect);
+}
+
+/**
+ * @brief Builds an attack hitting the target of the attacker, then bouncing to the nearest enemies not hit yet.
+ *
+ * The target is picked with the targeting policy of the attacker. Every bounce goes to the closest enemy within
+ * the bounce range of the last hit one (the smallest id on a tie) and multiplies the damage by the decay.
+ *
+ * @param {ChainOptions} options - The range, damage, effect, bounces, bounce range and decay of the attack.
+ * @return {PhaseAction<AttackProposal>} The attack action.
+ */
+function chainAttack(options: ChainOptions): PhaseAction<AttackProposal> {
+    return function (anActor, aWorld, actors) {
+        const target = chooseTarget(anActor, getEnemiesInRange(anActor, actors, options.range), aWorld, actors);
+        if (!target)
+            return emptyList();
+        const enemies = listToArray(getActorsByType(actors, "ENEMY"));
+        const bounce = (hits: [Actor, number][], bounces: number): [Actor, number][] => {
+            const [last, damage] = hits[hits.length - 1];
+            const next = enemies
+                .filter((enemy) => !hits.some(([hit]) => hit.id === enemy.id) && positionDistance(enemy.position, last.position) <= options.bounceRange)
+                .sort((enemy1, enemy2) => positionDistance(enemy1.position, last.position) - positionDistance(enemy2.position, last.position) || enemy1.id - enemy2.id)[0];
+            if (bounces <= 0 || !next)
+                return hits;
+            return bounce([...hits, [next, damage * options.decay]], bounces - 1);
+        };
+        return hitsToProposal(bounce([[target, options.damage]], options.bounces), options.effect);
+    };
+}
+
+export {
+    AttackOptions,
+    SplashOptions,
+    ChainOptions,
+    splashAttack,
+    ringAttack,
+    chainAttack
+};
@@ -0,0 +1,105 @@
+/**
+ * @file effects.ts
+ * @brief This file contains the status effects applied by attacks: poison, freeze and slow.
+ */
+
+import { Actor } from "./actors";
+import { List, cons, emptyList, head, isEmpty, listFoldR, tail } from "../common/list";
+
+/**
+ * @brief The kinds of status effects.
+ *
+ * POISON damages the actor during every heal phase, FREEZE prevents it from moving
+ * and SLOW only lets it move every other turn.
+ */
+type EffectKind = "POISON" | "FREEZE" | "SLOW"
+
+/**
+ * @brief A status effect applied to an actor.
+ */
+type StatusEffect = {
+    readonly kind: EffectKind;      /** The kind of the effect. */
+    readonly turns: number;         /** The number of turns the effect still lasts. */
+    readonly damage?: number;       /** The damage dealt every turn by a poison. */
+    readonly source?: number;       /** The id of the actor that applied the effect. */
+}
+
+/**
+ * @brief Returns the active effects of an actor.
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {List<StatusEffect>} The effects of the actor.
+ */
+const getEffects = (anActor: Actor): List<StatusEffect> => anActor.effects ?? emptyList();
+
+/**
+ * @brief Checks whether an actor is under an effect of the given kind.
+ *
+ * @param {Actor} anActor - The actor.
+ * @param {EffectKind} kind - The kind of effect.
+ * @return {boolean} True if the actor is under such an effect.
+ */
+const hasEffect = (anActor: Actor, kind: EffectKind): boolean =>
+    listFoldR((acc, effect) => acc || effect.kind === kind, false, getEffects(anActor));
+
+/**
+ * @brief Applies an effect to an actor.
+ *
+ * An effect replaces the effect of the same kind the actor is already under.
+ *
+ * @param {Actor} anActor - The actor.
+ * @param {StatusEffect} effect - The effect to apply.
+ * @return {Actor} A new actor under the effect.
+ */
+function addEffect(anActor: Actor, effect: StatusEffect): Actor {
+    function removeKindRec(effects: List<StatusEffect>): List<StatusEffect> {
+        if (isEmpty(effects))
+            return emptyList();
+        if (head(effects).kind === effect.kind)
+            return removeKindRec(tail(effects));
+        return cons(head(effects), removeKindRec(tail(effects)));
+    }
+    return { ...anActor, effects: cons(effect, removeKindRec(getEffects(anActor))) };
+}
+
+/**
+ * @brief Returns the damage the poisons of an actor deal this turn.
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {number} The damage of the poisons of the actor.
+ */
+const getPoisonDamage = (anActor: Actor): number =>
+    listFoldR((acc, effect) => effect.kind === "POISON" ? acc + (effect.damage ?? 0) : acc, 0, getEffects(anActor));
+
+/**
+ * @brief Makes the effects of an actor last one turn less, and removes the expired ones.
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {Actor} A new actor with the remaining effects.
+ */
+function tickEffects(anActor: Actor): Actor {
+    if (isEmpty(getEffects(anActor)))
+        return anActor;
+    const effects = listFoldR((acc: List<StatusEffect>, effect) => effect.turns > 1 ? cons({ ...effect, turns: effect.turns - 1 }, acc) : acc, emptyList(), getEffects(anActor));
+    return { ...anActor, effects: effects };
+}
+
+/**
+ * @brief Describes the effects of an actor, as "poison 2, slow 1".
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {string} The kind and the remaining turns of each effect, empty if the actor is under none.
+ */
+const effectsToString = (anActor: Actor): string =>
+    listFoldR((acc: string[], effect) => [`${effect.kind.toLowerCase()} ${effect.turns}`, ...acc], [], getEffects(anActor)).join(", ");
+
+export {
+    EffectKind,
+    StatusEffect,
+    getEffects,
+    hasEffect,
+    addEffect,
+    getPoisonDamage,
+    tickEffects,
+    effectsToString
+};
@@ -0,0 +1,107 @@
+/**
+ * @file projectiles.ts
+ * @brief This file contains the projectiles: actors thrown by an attack, which travel to their impact cell before they deal their damage.
+ */
+
+import { Actor, setActorPosition } from "./actors";
+import { ActorStore, getStoredActor } from "./actorStore";
+import { StatusEffect } from "./effects";
+import { createActorFromTemplate } from "./templateRegistry";
+import { Position, createPosition, positionDistance, positionEquals } from "../common/position";
+
+/**
+ * @brief The way an attack throws a projectile instead of hitting its target at once.
+ */
+type ProjectileOptions = {
+    readonly template: string;      /** The name of the template of the projectile (see the template registry). */
+    readonly speed: number;         /** The number of cells the projectile travels every turn, at least 1. */
+    readonly homing?: boolean;      /** True if the projectile follows its target, false if it flies to the cell the target stood on. */
+}
+
+/**
+ * @brief The flight of a projectile.
+ */
+type Flight = {
+    readonly source: number;        /** The id of the actor that threw the projectile. */
+    readonly target: number;        /** The id of the actor aimed at. */
+    readonly impact: Position;      /** The cell the projectile lands on. */
+    readonly speed: number;         /** The number of cells the projectile travels every turn. */
+    readonly homing: boolean;       /** True if the impact cell follows the target. */
+    readonly damage: number;        /** The damage dealt to the target if it stands on the impact cell. */
+    readonly effect?: StatusEffect; /** The status effect applied to the target, if any. */
+}
+
+/**
+ * @brief Creates a projectile on the cell of the actor throwing it, aimed at the cell of its target.
+ *
+ * @param {Actor} thrower - The actor throwing the projectile.
+ * @param {Actor} target - The actor aimed at.
+ * @param {ProjectileOptions} options - The template, speed and homing of the projectile.
+ * @param {number} damage - The damage dealt on impact.
+ * @param {StatusEffect} effect - The status effect applied on impact, if any.
+ * @return {Actor} A new projectile.
+ * @throws An error if the template is unknown.
+ */
+function launchProjectile(thrower: Actor, target: Actor, options: ProjectileOptions, damage: number, effect?: StatusEffect): Actor {
+    return {
+        ...createActorFromTemplate(options.template, thrower.position),
+        flight: {
+            source: thrower.id,
+            target: target.id,
+            impact: target.position,
+            speed: options.speed,
+            homing: options.homing ?? false,
+            damage: damage,
+            ...(effect ? { effect: effect } : {})
+        }
+    };
+}
+
+/**
+ * @brief Returns the cell reached from a position by travelling a number of cells in a straight line toward another one.
+ *
+ * @param {Position} from - The starting position.
+ * @param {Position} to - The destination.
+ * @param {number} speed - The number of cells travelled.
+ * @return {Position} The destination if it is close enough, the cell closest to the straight line otherwise.
+ */
+function stepTowards(from: Position, to: Position, speed: number): Position {
+    const distance = positionDistance(from, to);
+    if (distance <= speed)
+        return to;
+    return createPosition(Math.round(from.x + (to.x - from.x) * speed / distance), Math.round(from.y + (to.y - from.y) * speed / distance));
+}
+
+/**
+ * @brief Makes a projectile travel for one turn.
+ *
+ * A homing projectile first aims at the current cell of its target, if the target is still in the game.
+ *
+ * @param {Actor} projectile - The projectile.
+ * @param {ActorStore} actors - The store of the actors.
+ * @return {Actor} The projectile after its travel, unchanged if it is not in flight.
+ */
+function advanceProjectile(projectile: Actor, actors: ActorStore): Actor {
+    if (!projectile.flight)
+        return projectile;
+    const target = projectile.flight.homing ? getStoredActor(actors, projectile.flight.target) : undefined;
+    const flight = target ? { ...projectile.flight, impact: target.position } : projectile.flight;
+    return { ...setActorPosition(projectile, stepTowards(projectile.position, flight.impact, flight.speed)), flight: flight };
+}
+
+/**
+ * @brief Checks whether a projectile has reached its impact cell.
+ *
+ * @param {Actor} projectile - The projectile.
+ * @return {boolean} True if the projectile is on its impact cell.
+ */
+const hasLanded = (projectile: Actor): boolean => projectile.flight !== undefined && positionEquals(projectile.position, projectile.flight.impact);
+
+export {
+    ProjectileOptions,
+    Flight,
+    launchProjectile,
+    stepTowards,
+    advanceProjectile,
+    hasLanded
+};
@@ -0,0 +1,84 @@
+/**
+ * @file proposals.ts
+ * @brief This file contains the proposals the actors make during the game phases, resolved by the phases of the engine.
+ */
+
+import { World } from "../world/world";
+import { List } from "../common/list";
+import { Actor } from "./actors";
+import { StatusEffect } from "./effects";
+import { ProjectileOptions } from "./projectiles";
+
+/**
+ * @typedef Proposal
+ *
+ * @brief A proposal for an action to be taken by an actor during a game phase.
+ *
+ * @property {MoveProposal} MoveProposal - An actor movement proposal.
+ * @property {AttackProposal} AttackProposal - An actor attack proposal.
+ * @property {SpawnProposal} SpawnProposal - An actor spawn proposal.
+ * @property {HealProposal} HealProposal - An actor healing proposal.
+ * @property {undefined} undefined - An undefined proposal.
+ */
+type Proposal = MoveProposal | AttackProposal | SpawnProposal | HealProposal | undefined
+
+/**
+ * @typedef MoveProposal
+ *
+ * @brief An actor movement proposal.
+ *
+ * @type {Actor}
+ */
+type MoveProposal = Actor
+
+/**
+ * @typedef AttackProposal
+ *
+ * @brief An actor attack proposal.
+ *
+ * @property {number} id - The id of the attacked actor
+ * @property {number} damage - The amount of damage
+ * @property {StatusEffect} effect - The status effect applied to the attacked actor, if any
+ * @property {ProjectileOptions} projectile - The projectile carrying the damage and the effect to the attacked actor, if the attack is not instant
+ */
+type AttackProposal = List<{ id: number, damage: number, effect?: StatusEffect, projectile?: ProjectileOptions }>
+
+/**
+ * @typedef SpawnProposal
+ *
+ * @brief An actor spawn proposal, the actors emitted by a spawner in the order they are due.
+ *
+ * @type {List<Actor>}
+ */
+type SpawnProposal = List<Actor>
+
+/**
+ * @typedef HealProposal
+ *
+ * @brief An actor healing proposal.
+ *
+ * @property {number} id - The id of the healed actor
+ * @property {number} heal - The amount of heal
+ */
+type HealProposal = List<{ id: number, heal: number }>
+
+/**
+ * @typedef PhaseAction
+ *
+ * @brief A function that returns an action proposal for an actor in a game phase.
+ *
+ * @param {Actor} anActor - The actor for which to return the proposal.
+ * @param {World} aWorld - The game world.
+ * @param {List<Actor>} actors - The list of actors.
+ * @returns {Proposal} A proposal for an action to be taken by the actor in the game phase.
+ */
+type PhaseAction<ProposalType> = (anActor: Actor, aWorld: World, actors: List<Actor>) => ProposalType;
+
+export {
+    Proposal,
+    MoveProposal,
+    AttackProposal,
+    SpawnProposal,
+    HealProposal,
+    PhaseAction
+};
@@ -0,0 +1,103 @@
+/**
+ * @file targeting.ts
+ * @brief This file contains the targeting policies of the towers: the way they pick their target among the enemies in range.
+ */
+
+import { Actor, actorDistance, getActorRng } from "./actors";
+import { World } from "../world/world";
+import { getFlowField, getFlowSteps } from "../world/flowField";
+import { List, head, isEmpty, listFoldR, randomList } from "../common/list";
+
+/**
+ * @brief The targeting policies.
+ *
+ * RANDOM picks any target, NEAREST the closest one, FARTHEST_ALONG_PATH the one with the fewest steps left to its goal,
+ * LOWEST_HEALTH and HIGHEST_HEALTH the weakest and the healthiest, and STRONGEST the one with the greatest maximum health.
+ */
+type TargetingPolicy = "RANDOM" | "NEAREST" | "FARTHEST_ALONG_PATH" | "LOWEST_HEALTH" | "HIGHEST_HEALTH" | "STRONGEST"
+
+/**
+ * @brief Returns the number of steps left to an actor to reach its goal, read from the flow field of the actors.
+ *
+ * @param {Actor} anActor - The actor.
+ * @param {World} aWorld - The game world.
+ * @param {List<Actor>} actors - The list of actors.
+ * @return {number} The number of steps of the walk of the actor, Infinity if it cannot reach a goal.
+ */
+const stepsToGoal = (anActor: Actor, aWorld: World, actors: List<Actor>): number => getFlowSteps(getFlowField(aWorld, actors), anActor.position);
+
+/**
+ * @brief The score of a target for each policy but RANDOM: the target with the lowest score is picked.
+ */
+const targetScores: Readonly<Record<Exclude<TargetingPolicy, "RANDOM">, (tower: Actor, target: Actor, aWorld: World, actors: List<Actor>) => number>> = {
+    NEAREST: (tower, target) => actorDistance(tower, target),
+    FARTHEST_ALONG_PATH: (_tower, target, aWorld, actors) => stepsToGoal(target, aWorld, actors),
+    LOWEST_HEALTH: (_tower, target) => target.health,
+    HIGHEST_HEALTH: (_tower, target) => -target.health,
+    STRONGEST: (_tower, target) => -target.maxHealth
+};
+
+/**
+ * @brief All the targeting policies, RANDOM first.
+ */
+const targetingPolicies: readonly TargetingPolicy[] = ["RANDOM", ...<Exclude<TargetingPolicy, "RANDOM">[]>Object.keys(targetScores)];
+
+/**
+ * @brief Checks whether a value is a targeting policy.
+ *
+ * @param {unknown} value - The value to check.
+ * @return {boolean} True if the value is a targeting policy.
+ */
+const isTargetingPolicy = (value: unknown): value is TargetingPolicy =>
+    value === "RANDOM" || (typeof value === "string" && Object.prototype.hasOwnProperty.call(targetScores, value));
+
+/**
+ * @brief Returns the targeting policy of an actor.
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {TargetingPolicy} The policy set on the actor, else the policy of its template, RANDOM if it declares none.
+ */
+const getTargeting = (anActor: Actor): TargetingPolicy => anActor.targetingOverride ?? anActor.targeting ?? "RANDOM";
+
+/**
+ * @brief Changes the targeting policy of an actor, over the policy of its template.
+ *
+ * @param {Actor} anActor - The actor.
+ * @param {TargetingPolicy} policy - The new policy.
+ * @return {Actor} A new actor with the policy.
+ */
+const setTargeting = (anActor: Actor, policy: TargetingPolicy): Actor => ({ ...anActor, targetingOverride: policy });
+
+/**
+ * @brief Picks the target of an actor among candidates, following its targeting policy.
+ *
+ * The policies other than RANDOM break ties with the smallest id, so they do not use the random number generator.
+ *
+ * @param {Actor} anActor - The actor choosing its target.
+ * @param {List<Actor>} candidates - The actors it can target.
+ * @param {World} aWorld - The game world.
+ * @param {List<Actor>} actors - The list of actors.
+ * @return {Actor | undefined} The target, or undefined if there is no candidate.
+ */
+function chooseTarget(anActor: Actor, candidates: List<Actor>, aWorld: World, actors: List<Actor>): Actor | undefined {
+    const policy = getTargeting(anActor);
+    if (policy === "RANDOM")
+        return randomList(candidates, getActorRng(anActor, aWorld));
+    if (isEmpty(candidates))
+        return undefined;
+    const score = (target: Actor) => targetScores[policy](anActor, target, aWorld, actors);
+    const [best] = listFoldR(([best, bestScore]: [Actor, number], target): [Actor, number] => {
+        const targetScore = score(target);
+        return targetScore < bestScore || (targetScore === bestScore && target.id < best.id) ? [target, targetScore] : [best, bestScore];
+    }, <[Actor, number]>[head(candidates), score(head(candidates))], candidates);
+    return best;
+}
+
+export {
+    TargetingPolicy,
+    targetingPolicies,
+    isTargetingPolicy,
+    getTargeting,
+    setTargeting,
+    chooseTarget
+};
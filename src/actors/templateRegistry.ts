@@ -0,0 +1,90 @@
+/**
+ * @file templateRegistry.ts
+ * @brief This file contains the registry of the actor templates, used to rebuild actors from their template name.
+ */
+
+import { Position } from "../common/position";
+import { Actor, copyNewActor, setActorPosition } from "./actors";
+import {
+    remyWithSpoon,
+    hungryRemyWithSpoon,
+    remyThrowingCheese,
+    gusteauWithPan,
+    angryGusteauWithPan,
+    veryAngryGusteauWithPan,
+    skinnerWithSoup,
+    coletteWithKnives,
+    laloJugglingOnions,
+    linguini,
+    marmite,
+    worktop,
+    thrownCheese,
+    hole
+} from "./actorsTemplate";
+
+/**
+ * @brief The templates of the game, by template name.
+ */
+const templates: Readonly<Record<string, Actor>> = {
+    remyWithSpoon,
+    hungryRemyWithSpoon,
+    remyThrowingCheese,
+    gusteauWithPan,
+    angryGusteauWithPan,
+    veryAngryGusteauWithPan,
+    skinnerWithSoup,
+    coletteWithKnives,
+    laloJugglingOnions,
+    linguini,
+    marmite,
+    worktop,
+    thrownCheese,
+    hole
+};
+
+/**
+ * @brief Returns the names of all the registered templates.
+ *
+ * @return {string[]} The template names.
+ */
+const getTemplateNames = (): string[] => Object.keys(templates);
+
+/**
+ * @brief Returns the template registered with the given name.
+ *
+ * @param {string} templateName - The name of the template.
+ * @return {Actor | undefined} The template, or undefined if no template has this name.
+ */
+const getTemplate = (templateName: string): Actor | undefined =>
+    Object.prototype.hasOwnProperty.call(templates, templateName) ? templates[templateName] : undefined;
+
+/**
+ * @brief Returns the name of the template an actor was created from.
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {string | undefined} The template name, or undefined if the actor comes from no registered template.
+ */
+const getTemplateName = (anActor: Actor): string | undefined =>
+    getTemplateNames().find((templateName) => templates[templateName].name === anActor.name);
+
+/**
+ * @brief Creates a new actor from a registered template.
+ *
+ * @param {string} templateName - The name of the template.
+ * @param {Position} pos - The position of the new actor.
+ * @return {Actor} A new actor, with a new identifier, at the given position.
+ * @throws An error if no template has this name.
+ */
+function createActorFromTemplate(templateName: string, pos: Position): Actor {
+    const template = getTemplate(templateName);
+    if (!template)
+        throw new Error(`Unknown template "${templateName}"`);
+    return copyNewActor(setActorPosition(template, pos));
+}
+
+export {
+    getTemplateNames,
+    getTemplate,
+    getTemplateName,
+    createActorFromTemplate
+};
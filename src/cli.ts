@@ -0,0 +1,140 @@
+/**
+ * @file cli.ts
+ * @brief This file contains the command line interface of the game (console only).
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { createInterface } from "readline";
+import { Command } from "commander";
+import { Level, loadLevel, parseLevel } from "./world/level";
+import { kitchen } from "./world/kitchen";
+import { asciiMapToLevel } from "./world/asciiMap";
+import { computePhases } from "./engine/phases";
+import { gameIsOver, playTurn, sleep } from "./engine/engine";
+import { PhaseRecord, addTurn, createReplay, parseReplay, playReplay, recordPhase, replayToJson } from "./engine/replay";
+import { formatReport, simulateGames } from "./engine/simulation";
+import { loadGame, parseSavedGame, saveGame, savedGameToJson } from "./engine/save";
+import { PlayerOrder, applyPlacements, parsePlacementOrder } from "./engine/placement";
+import { createEventBus } from "./engine/events";
+import { getEvents } from "./world/events";
+import { printBalance, printEvent, printGame } from "./graphics/consoleGraphics";
+
+/**
+ * @brief Reads the level of a game: the given level file, the given ASCII map, or the built-in kitchen.
+ *
+ * @param {{ level?: string, map?: string }} options - The level file and the ASCII map file.
+ * @return {Level} The level.
+ */
+function readLevel(options: { level?: string, map?: string }): Level {
+    if (options.level)
+        return parseLevel(readFileSync(options.level, "utf-8"));
+    if (options.map)
+        return asciiMapToLevel(readFileSync(options.map, "utf-8"));
+    return kitchen;
+}
+
+/**
+ * @brief Asks the player for the towers to place, to upgrade or to retarget before the next turn, until an empty line.
+ *
+ * @param {AsyncIterator<string>} lines - The lines typed in the console.
+ * @return {Promise<PlayerOrder[]>} The orders of the player.
+ */
+async function readPlacementOrders(lines: AsyncIterator<string>): Promise<PlayerOrder[]> {
+    const orders: PlayerOrder[] = [];
+    process.stdout.write("Place towers (<template> <x> <y>), upgrade them (upgrade <x> <y>) or change their targeting (target <x> <y> <policy>), empty line to go on:\n");
+    for (let line = await lines.next(); !line.done && line.value.trim() !== ""; line = await lines.next()) {
+        try {
+            orders.push(parsePlacementOrder(line.value));
+        } catch (error) {
+            console.log((<Error>error).message);
+        }
+    }
+    return orders;
+}
+
+const program = new Command();
+
+program
+    .name("tower-defense")
+    .description("Ratatouille tower defense in the console");
+
+program
+    .command("play")
+    .description("play a game in the console")
+    .option("-s, --seed <seed>", "seed of the game", (value) => Number(value) | 0, Date.now() | 0)
+    .option("-d, --delay <ms>", "milliseconds between two turns", Number, 300)
+    .option("-L, --level <file>", "level file of the game (the kitchen by default)")
+    .option("-m, --map <file>", "level of the game drawn as an ASCII map")
+    .option("-r, --record <file>", "record the game in a replay file")
+    .option("-l, --load <file>", "resume a game saved with --save")
+    .option("-w, --save <file>", "save the game when it stops")
+    .option("-t, --turns <turns>", "pause the game after this number of turns", Number, Infinity)
+    .option("-i, --interactive", "place, upgrade and retarget towers between two turns")
+    .action(async (options: { seed: number, delay: number, level?: string, map?: string, record?: string, load?: string, save?: string, turns: number, interactive?: boolean }) => {
+        let world, actors;
+        if (options.load)
+            [world, actors] = loadGame(parseSavedGame(readFileSync(options.load, "utf-8")));
+        else {
+            console.log(`Seed: ${options.seed}`);
+            [world, actors] = loadLevel(readLevel(options), { seed: options.seed });
+        }
+        const phases = computePhases(world, actors);
+        let replay = createReplay(world, actors);
+        const bus = createEventBus();
+        bus.subscribe(printEvent);
+        const input = options.interactive ? createInterface({ input: process.stdin }) : undefined;
+        const lines = input?.[Symbol.asyncIterator]();
+
+        printGame(world, actors);
+        printBalance(world);
+        for (let turn = 0; gameIsOver(world, actors) === "NONE" && turn < options.turns; turn++) {
+            if (lines) {
+                let errors;
+                [world, actors, errors] = applyPlacements(world, actors, await readPlacementOrders(lines));
+                errors.forEach((error) => console.log(error));
+            } else
+                await sleep(options.delay);
+
+            const records: PhaseRecord[] = [];
+            [world, actors] = playTurn(world, actors, phases, (aPhase, actors, proposals) => records.push(recordPhase(aPhase, actors, proposals)));
+            replay = addTurn(replay, records, actors);
+
+            printGame(world, actors);
+            bus.publish(getEvents(world));
+            printBalance(world);
+        }
+
+        input?.close();
+        console.log(`Winner: ${gameIsOver(world, actors)}`);
+        if (options.save) {
+            writeFileSync(options.save, savedGameToJson(saveGame(world, actors)));
+            console.log(`Game saved to ${options.save}`);
+        }
+        if (options.record) {
+            writeFileSync(options.record, replayToJson(replay));
+            console.log(`Replay written to ${options.record}`);
+        }
+    });
+
+program
+    .command("replay")
+    .description("play a replay file back")
+    .argument("<file>", "replay file written by play --record")
+    .option("-d, --delay <ms>", "milliseconds between two turns", Number, 300)
+    .action(async (file: string, options: { delay: number }) => {
+        await playReplay(parseReplay(readFileSync(file, "utf-8")), options.delay);
+    });
+
+program
+    .command("simulate")
+    .description("play many games without delay nor rendering and report their results")
+    .option("-n, --games <count>", "number of games to play", Number, 100)
+    .option("-L, --level <file>", "level file of the games (the kitchen by default)")
+    .option("-m, --map <file>", "level of the games drawn as an ASCII map")
+    .option("-s, --seed <seed>", "seed of the first game", (value) => Number(value) | 0, 0)
+    .option("-t, --max-turns <turns>", "number of turns after which a game is stopped", Number, 1000)
+    .action((options: { games: number, level?: string, map?: string, seed: number, maxTurns: number }) => {
+        console.log(formatReport(simulateGames(readLevel(options), options.games, options.seed, options.maxTurns)));
+    });
+
+program.parseAsync(process.argv);
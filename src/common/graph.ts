@@ -4,20 +4,27 @@
  */
 
 import { Actor, isWalkableByEnemy } from "../actors/actors";
-import { Position, createPosition, positionDistance, positionEquals } from "../common/position";
+import { Position, createPosition, positionEquals } from "../common/position";
 import { List, isEmpty, emptyList, appendList, head, tail, listFoldR, cons } from "./list";
 import { Vertex, getVertexByPos } from "./vertex";
 
+/**
+ * @brief The number of neighbours of a cell of a grid: the 4 orthogonal ones, or the 8 orthogonal and diagonal ones.
+ */
+type Connectivity = 4 | 8
+
 /**
  * @brief A type that represents a graph.
  *
  * @property vertexes A list of vertices in the graph.
  * @property n The number of vertices in the graph.
+ * @property connectivity The number of neighbours of a vertex of the grid (4 by default).
  * @property adj A list of adjacency lists, where the i-th list contains all edges that start from vertex i.
  */
 type Graph = {
     vertexes: List<Vertex>;
     n: number;
+    connectivity?: Connectivity;
 };
 
 type Node = {
@@ -59,10 +66,29 @@ function createEmptyGraph(): Graph {
  *
  * @param {List<Vertex>} v The list of vertexes in the graph.
  * @param {number} n The size of the graph.
+ * @param {Connectivity} connectivity The number of neighbours of a vertex of the grid.
  * @return {Graph} Returns the created graph.
  */
-function createGraph(v: List<Vertex>, n: number): Graph {
-    return { vertexes: v, n: n };
+function createGraph(v: List<Vertex>, n: number, connectivity: Connectivity = 4): Graph {
+    return { vertexes: v, n: n, connectivity: connectivity };
+}
+
+/**
+ * @brief Returns the lowest cost of a walk between two positions of a grid, used as the heuristic of the pathfinding.
+ *
+ * With 4 neighbours it is the Manhattan distance, with 8 neighbours the octile distance (a diagonal step costs √2).
+ *
+ * @param {Position} src The first position.
+ * @param {Position} dst The second position.
+ * @param {Connectivity} connectivity The number of neighbours of a vertex of the grid.
+ * @return {number} Returns the distance between the two positions.
+ */
+function gridDistance(src: Position, dst: Position, connectivity: Connectivity): number {
+    const dx = Math.abs(src.x - dst.x);
+    const dy = Math.abs(src.y - dst.y);
+    if (connectivity === 4)
+        return dx + dy;
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
 }
 
 /**
@@ -71,15 +97,17 @@ function createGraph(v: List<Vertex>, n: number): Graph {
  * @param {Node | undefined} parent - The parent node of the new node, or undefined if this is the first node.
  * @param {Vertex} vertex - The vertex associated with this node.
  * @param {Position} dst - The destination position for the pathfinding.
+ * @param {number} weight - The weight of the edge from the parent to the vertex (1 by default).
+ * @param {Connectivity} connectivity - The number of neighbours of a vertex of the grid (4 by default).
  * @return {Node} Returns a new node object.
  */
-function makeNode(parent: Node | undefined, vertex: Vertex, dst: Position): Node {
+function makeNode(parent: Node | undefined, vertex: Vertex, dst: Position, weight: number = 1, connectivity: Connectivity = 4): Node {
     let distance;
     if (parent)
-        distance = parent.distance + 1;
+        distance = parent.distance + weight;
     else
         distance = 0;
-    return <Node>{ parent: parent, vertex: vertex, distance: distance, score: distance + positionDistance(vertex.pos, dst) };
+    return <Node>{ parent: parent, vertex: vertex, distance: distance, score: distance + gridDistance(vertex.pos, dst, connectivity) };
 }
 
 /**
@@ -156,6 +184,20 @@ function removeNodeFromList(nodes: List<Node>, node: Node): List<Node> {
     return cons(head(nodes), removeNodeFromList(tail(nodes), node));
 }
 
+/**
+ * @brief Checks whether a diagonal step cuts the corner of a cell that cannot be walked through.
+ *
+ * @param {Position} src The position the step starts from.
+ * @param {Position} dst The position the step ends on.
+ * @param {List<Actor>} actors The list of actors in the game.
+ * @return {boolean} Returns true if the step is diagonal and one of the two cells it brushes is not walkable.
+ */
+function cutsCorner(src: Position, dst: Position, actors: List<Actor>): boolean {
+    if (src.x === dst.x || src.y === dst.y)
+        return false;
+    return !isWalkableByEnemy(actors, createPosition(dst.x, src.y)) || !isWalkableByEnemy(actors, createPosition(src.x, dst.y));
+}
+
 /**
  * @brief Recursively performs A* pathfinding algorithm.
  *
@@ -179,11 +221,13 @@ function pathfindingRec(openList: List<Node>, closedList: List<Node>, dst: Posit
         return reconstructPath(current);
     closedList = appendList(closedList, current);
     [openList, closedList] = listFoldR(function ([openList, closedList], edge) {
-        const neighbor = makeNode(current, getVertexByPos(G.vertexes, edge.vertex.pos), dst);
+        const neighbor = makeNode(current, getVertexByPos(G.vertexes, edge.vertex.pos), dst, edge.weight, G.connectivity);
         if (isNodeInList(closedList, neighbor))
             return [openList, closedList];
         if (!isWalkableByEnemy(actors, neighbor.vertex.pos))
             return [openList, cons(neighbor, closedList)];
+        if (cutsCorner(current.vertex.pos, neighbor.vertex.pos, actors))
+            return [openList, closedList];
         if (!isNodeInList(openList, neighbor))
             return [appendList(openList, neighbor), closedList];
         return [updateNodeInList(openList, neighbor), closedList];
@@ -205,12 +249,13 @@ function pathfindingRec(openList: List<Node>, closedList: List<Node>, dst: Posit
  * @return {List<Vertex>} Returns a list of vertices representing the shortest path from the source position to the destination position, if it exists.
  */
 function pathfinding(src: Position, dst: Position, G: Graph, actors: List<Actor>): List<Vertex> {
-    const openList: List<Node> = cons(makeNode(undefined, getVertexByPos(G.vertexes, src), dst), emptyList());
+    const openList: List<Node> = cons(makeNode(undefined, getVertexByPos(G.vertexes, src), dst, 1, G.connectivity), emptyList());
     const closedList: List<Node> = emptyList();
     return pathfindingRec(openList, closedList, dst, G, actors);
 }
 
 export {
+    Connectivity,
     Graph,
     isEmptyGraph,
     createEmptyGraph,
@@ -218,6 +263,8 @@ export {
     pathfinding,
     Node,
     makeNode,
+    gridDistance,
+    cutsCorner,
     extractClosestNode,
     reconstructPath,
     isNodeInList,
@@ -0,0 +1,95 @@
+/**
+ * @file heap.ts
+ * @brief This file defines a binary min-heap, the priority queue of the searches over the grid.
+ *
+ * Unlike the lists and the int maps, a heap is modified in place: it lives inside a single search and never leaves it.
+ */
+
+/**
+ * @brief A binary min-heap: every element is lower than its two children.
+ *
+ * @typeparam T Type of the elements.
+ */
+type Heap<T> = {
+    readonly items: T[];                                /** The elements, the children of the element i being at 2i + 1 and 2i + 2. */
+    readonly isLower: (item1: T, item2: T) => boolean;  /** The order of the elements, true if the first element comes out before the second one. */
+}
+
+/**
+ * @brief Returns an empty heap.
+ *
+ * @typeparam T Type of the elements.
+ * @param {(item1: T, item2: T) => boolean} isLower - The order of the elements, true if the first element comes out before the second one.
+ * @returns {Heap<T>} A heap without any element.
+ */
+const createHeap = <T>(isLower: (item1: T, item2: T) => boolean): Heap<T> => ({ items: [], isLower: isLower });
+
+/**
+ * @brief Returns the number of elements of a heap.
+ *
+ * @typeparam T Type of the elements.
+ * @param {Heap<T>} heap - The heap.
+ * @returns {number} The number of elements.
+ */
+const heapSize = <T>(heap: Heap<T>): number => heap.items.length;
+
+/**
+ * @brief Swaps two elements of a heap.
+ *
+ * @typeparam T Type of the elements.
+ * @param {Heap<T>} heap - The heap.
+ * @param {number} i - The index of the first element.
+ * @param {number} j - The index of the second element.
+ */
+function swap<T>(heap: Heap<T>, i: number, j: number): void {
+    [heap.items[i], heap.items[j]] = [heap.items[j], heap.items[i]];
+}
+
+/**
+ * @brief Adds an element to a heap.
+ *
+ * @typeparam T Type of the elements.
+ * @param {Heap<T>} heap - The heap, modified in place.
+ * @param {T} item - The element to add.
+ */
+function heapPush<T>(heap: Heap<T>, item: T): void {
+    heap.items.push(item);
+    let i = heap.items.length - 1;
+    while (i > 0 && heap.isLower(heap.items[i], heap.items[(i - 1) >> 1])) {
+        swap(heap, i, (i - 1) >> 1);
+        i = (i - 1) >> 1;
+    }
+}
+
+/**
+ * @brief Takes the lowest element out of a heap.
+ *
+ * @typeparam T Type of the elements.
+ * @param {Heap<T>} heap - The heap, modified in place.
+ * @returns {T | undefined} The lowest element, undefined if the heap is empty.
+ */
+function heapPop<T>(heap: Heap<T>): T | undefined {
+    const top = heap.items[0];
+    const last = heap.items.pop();
+    if (heap.items.length === 0 || last === undefined)
+        return top;
+    heap.items[0] = last;
+    let i = 0;
+    for (;;) {
+        const lowest = [2 * i + 1, 2 * i + 2]
+            .filter((child) => child < heap.items.length)
+            .reduce((acc, child) => heap.isLower(heap.items[child], heap.items[acc]) ? child : acc, i);
+        if (lowest === i)
+            return top;
+        swap(heap, i, lowest);
+        i = lowest;
+    }
+}
+
+export {
+    Heap,
+    createHeap,
+    heapSize,
+    heapPush,
+    heapPop
+};
@@ -0,0 +1,177 @@
+/**
+ * @file intMap.ts
+ * @brief This file defines a persistent map from non-negative integers to values, stored in a trie.
+ *
+ * A map is never modified: adding or removing a key copies the nodes on the path to the key (a few dozen cells)
+ * and shares the rest of the trie with the previous map.
+ */
+
+/**
+ * @brief The number of bits of a key read by each level of the trie.
+ */
+const bits = 5;
+
+/**
+ * @brief The number of children of a node of the trie.
+ */
+const branching = 1 << bits;
+
+/**
+ * @brief A node of the trie: its children, or its values on the last level.
+ *
+ * @typeparam V Type of the values.
+ */
+type IntMapNode<V> = readonly (IntMapNode<V> | V | undefined)[];
+
+/**
+ * @brief A persistent map from non-negative integers to values.
+ *
+ * @typeparam V Type of the values.
+ */
+type IntMap<V> = {
+    readonly size: number;                      /** The number of keys of the map. */
+    readonly depth: number;                     /** The number of levels of the trie, the keys are lower than branching ** depth. */
+    readonly root: IntMapNode<V> | undefined;   /** The root of the trie, undefined if the map is empty. */
+}
+
+/**
+ * @brief Returns an empty map.
+ *
+ * @typeparam V Type of the values.
+ * @returns {IntMap<V>} A map without any key.
+ */
+const emptyIntMap = <V>(): IntMap<V> => ({ size: 0, depth: 1, root: undefined });
+
+/**
+ * @brief Returns the index of the child holding a key on a level of the trie.
+ *
+ * Keys can exceed 2^32, so the index is computed with divisions rather than bit shifts.
+ *
+ * @param {number} key - The key.
+ * @param {number} level - The level, 0 for the last one.
+ * @returns {number} The index of the child.
+ */
+const childIndex = (key: number, level: number): number => Math.floor(key / Math.pow(branching, level)) % branching;
+
+/**
+ * @brief Checks that a key can be stored in a map.
+ *
+ * @param {number} key - The key.
+ * @throws An error if the key is not a non-negative safe integer.
+ */
+function checkKey(key: number): void {
+    if (!Number.isSafeInteger(key) || key < 0)
+        throw new Error(`Invalid key ${key}, expected a non-negative integer`);
+}
+
+/**
+ * @brief Returns the value of a key.
+ *
+ * @typeparam V Type of the values.
+ * @param {IntMap<V>} map - The map.
+ * @param {number} key - The key.
+ * @returns {V | undefined} The value of the key, undefined if the map does not hold it.
+ */
+function intMapGet<V>(map: IntMap<V>, key: number): V | undefined {
+    if (!Number.isSafeInteger(key) || key < 0 || key >= Math.pow(branching, map.depth))
+        return undefined;
+    const find = (node: IntMapNode<V> | undefined, level: number): V | undefined => {
+        if (!node)
+            return undefined;
+        const child = node[childIndex(key, level)];
+        return level === 0 ? <V | undefined>child : find(<IntMapNode<V> | undefined>child, level - 1);
+    };
+    return find(map.root, map.depth - 1);
+}
+
+/**
+ * @brief Checks whether a map holds a key.
+ *
+ * @typeparam V Type of the values.
+ * @param {IntMap<V>} map - The map.
+ * @param {number} key - The key.
+ * @returns {boolean} True if the map holds the key.
+ */
+const intMapHas = <V>(map: IntMap<V>, key: number): boolean => intMapGet(map, key) !== undefined;
+
+/**
+ * @brief Returns a copy of a node where one child is changed.
+ *
+ * @typeparam V Type of the values.
+ * @param {IntMapNode<V> | undefined} node - The node, undefined for an empty one.
+ * @param {number} index - The index of the changed child.
+ * @param {IntMapNode<V> | V | undefined} child - The new child.
+ * @returns {IntMapNode<V> | undefined} The new node, undefined if it has no child left.
+ */
+function setChild<V>(node: IntMapNode<V> | undefined, index: number, child: IntMapNode<V> | V | undefined): IntMapNode<V> | undefined {
+    const children = node ? [...node] : new Array(branching).fill(undefined);
+    children[index] = child;
+    return children.every((aChild) => aChild === undefined) ? undefined : children;
+}
+
+/**
+ * @brief Returns a map where a key has a new value.
+ *
+ * @typeparam V Type of the values.
+ * @param {IntMap<V>} map - The map.
+ * @param {number} key - The key.
+ * @param {V} value - The new value of the key, which must not be undefined.
+ * @returns {IntMap<V>} A new map holding the key with the value.
+ * @throws An error if the key is not a non-negative integer.
+ */
+function intMapSet<V>(map: IntMap<V>, key: number, value: V): IntMap<V> {
+    checkKey(key);
+    if (key >= Math.pow(branching, map.depth))
+        return intMapSet({ ...map, depth: map.depth + 1, root: map.root ? setChild(undefined, 0, map.root) : undefined }, key, value);
+    const update = (node: IntMapNode<V> | undefined, level: number): IntMapNode<V> | undefined => {
+        const index = childIndex(key, level);
+        return setChild(node, index, level === 0 ? value : update(<IntMapNode<V> | undefined>node?.[index], level - 1));
+    };
+    return { size: intMapHas(map, key) ? map.size : map.size + 1, depth: map.depth, root: update(map.root, map.depth - 1) };
+}
+
+/**
+ * @brief Returns a map without a key.
+ *
+ * @typeparam V Type of the values.
+ * @param {IntMap<V>} map - The map.
+ * @param {number} key - The key to remove.
+ * @returns {IntMap<V>} A new map without the key, the same map if it did not hold the key.
+ */
+function intMapRemove<V>(map: IntMap<V>, key: number): IntMap<V> {
+    if (!intMapHas(map, key))
+        return map;
+    const update = (node: IntMapNode<V> | undefined, level: number): IntMapNode<V> | undefined => {
+        const index = childIndex(key, level);
+        return setChild(node, index, level === 0 ? undefined : update(<IntMapNode<V> | undefined>node?.[index], level - 1));
+    };
+    return { size: map.size - 1, depth: map.depth, root: update(map.root, map.depth - 1) };
+}
+
+/**
+ * @brief Returns the values of a map, in the order of their keys.
+ *
+ * @typeparam V Type of the values.
+ * @param {IntMap<V>} map - The map.
+ * @returns {V[]} The values of the map, from the lowest key to the highest one.
+ */
+function intMapValues<V>(map: IntMap<V>): V[] {
+    const collect = (node: IntMapNode<V> | undefined, level: number): V[] => {
+        if (!node)
+            return [];
+        if (level === 0)
+            return <V[]>node.filter((child) => child !== undefined);
+        return node.flatMap((child) => collect(<IntMapNode<V> | undefined>child, level - 1));
+    };
+    return collect(map.root, map.depth - 1);
+}
+
+export {
+    IntMap,
+    emptyIntMap,
+    intMapGet,
+    intMapHas,
+    intMapSet,
+    intMapRemove,
+    intMapValues
+};
@@ -1,8 +1,12 @@
 /**
  * @file list.ts
  * @brief This file defines a generic list cell and a linked list type.
+ *
+ * The functions walking through a list use loops rather than recursion, so that lists of any length fit in the call stack.
  */
 
+import { Rng, randomInt } from "./random";
+
 /**
  * @brief A cons cell is a pair of elements where the first element is called 'car' and the second element is called 'cdr'.
  *
@@ -95,6 +99,16 @@ function tail<T>(l: List<T>): List<T> {
     throw new Error('List is empty');
 }
 
+/**
+ * @brief Puts the elements of an array in front of a list.
+ *
+ * @typeparam T Type of the elements in the array and list.
+ * @param {T[]} arr The elements to put in front of the list, in order.
+ * @param {List<T>} rest The list to put the elements in front of, shared by the new list.
+ * @returns {List<T>} A new list starting with the elements of the array, followed by the elements of rest.
+ */
+const prependArray = <T>(arr: T[], rest: List<T>): List<T> => arr.reduceRight((acc: List<T>, elt) => cons(elt, acc), rest);
+
 /*******************************************************************************
  * All functions return new lists (no side effects in functional programming). *
 ********************************************************************************/
@@ -109,11 +123,13 @@ function tail<T>(l: List<T>): List<T> {
  * @returns {boolean} True if the lists are equal, false otherwise.
  */
 function listEquals<T>(l1: List<T>, l2: List<T>, cmpFunc: (elt1: T, elt2: T) => boolean): boolean {
-    if (isEmpty(l1) && isEmpty(l2))
-        return true;
-    else if (isEmpty(l1) || isEmpty(l2))
-        return false;
-    return cmpFunc(head(l1), head(l2)) && listEquals(tail(l1), tail(l2), cmpFunc);
+    let [cursor1, cursor2] = [l1, l2];
+    while (!isEmpty(cursor1) && !isEmpty(cursor2)) {
+        if (!cmpFunc(head(cursor1), head(cursor2)))
+            return false;
+        [cursor1, cursor2] = [tail(cursor1), tail(cursor2)];
+    }
+    return isEmpty(cursor1) && isEmpty(cursor2);
 }
 
 /**
@@ -124,9 +140,7 @@ function listEquals<T>(l1: List<T>, l2: List<T>, cmpFunc: (elt1: T, elt2: T) =>
  * @returns {List<T>} A new list that is a copy of the original.
  */
 function copyList<T>(l: List<T>): List<T> {
-    if (isEmpty(l))
-        return nil;
-    return cons(head(l), copyList(tail(l)));
+    return prependArray(listToArray(l), nil);
 }
 
 /**
@@ -146,11 +160,9 @@ const emptyList = () => nil;
  * @returns {List<T>} A new list with the element added at the specified position.
  */
 function addAtList<T>(l: List<T>, elt: T, pos: number): List<T> {
-    if (isEmpty(l))
-        return cons(elt, nil);
-    else if (pos <= 0)
-        return cons(elt, copyList(l));
-    return cons(head(l), addAtList(tail(l), elt, pos - 1));
+    const arr = listToArray(l);
+    const index = Math.min(Math.max(Math.ceil(pos), 0), arr.length);
+    return prependArray(arr.slice(0, index), cons(elt, prependArray(arr.slice(index), nil)));
 }
 
 /**
@@ -161,11 +173,8 @@ function addAtList<T>(l: List<T>, elt: T, pos: number): List<T> {
  * @returns {List<T>} A new list with the specified element removed.
  */
 function removeAtList<T>(l: List<T>, pos: number): List<T> {
-    if (isEmpty(l))
-        return nil;
-    else if (pos <= 0)
-        return copyList(tail(l));
-    return cons(head(l), removeAtList(tail(l), pos - 1));
+    const index = Math.max(Math.ceil(pos), 0);
+    return prependArray(listToArray(l).filter((_elt, i) => i !== index), nil);
 }
 
 /**
@@ -192,7 +201,7 @@ function changeListAt<T>(l: List<T>, elt: T, pos: number): List<T> {
 function listMap<T, Img>(f: (x: T) => Img, l: List<T>): List<Img> {
     if (isEmpty(l))
         return l;
-    return cons(f(head(l)), listMap(f, tail(l)));
+    return prependArray(listToArray(l).map((elt) => f(elt)), nil);
 }
 
 /**
@@ -206,9 +215,7 @@ function listMap<T, Img>(f: (x: T) => Img, l: List<T>): List<Img> {
  * @returns {Acc} The folded value.
  */
 function listFoldR<Acc, T>(f: (acc: Acc, elt: T) => Acc, init: Acc, l: List<T>): Acc {
-    if (isEmpty(l))
-        return init;
-    return f(listFoldR(f, init, tail(l)), head(l));
+    return listToArray(l).reduceRight((acc, elt) => f(acc, elt), init);
 }
 
 /**
@@ -220,9 +227,7 @@ function listFoldR<Acc, T>(f: (acc: Acc, elt: T) => Acc, init: Acc, l: List<T>):
  * @returns {List<T>} The list with the element appended.
  */
 function appendList<T>(l: List<T>, elt: T): List<T> {
-    if (isEmpty(l))
-        return cons(elt, nil);
-    return cons(head(l), appendList(tail(l), elt));
+    return prependArray(listToArray(l), cons(elt, nil));
 }
 
 /**
@@ -235,11 +240,12 @@ function appendList<T>(l: List<T>, elt: T): List<T> {
  * @throws Error if the list is empty.
  */
 function readListAt<T>(l: List<T>, pos: number): T {
-    if (isEmpty(l))
+    let [cursor, remaining] = [l, pos];
+    while (!isEmpty(cursor) && remaining > 0)
+        [cursor, remaining] = [tail(cursor), remaining - 1];
+    if (isEmpty(cursor))
         throw new Error;
-    else if (pos <= 0)
-        return head(l);
-    return readListAt(tail(l), pos - 1);
+    return head(cursor);
 }
 
 /**
@@ -250,12 +256,10 @@ function readListAt<T>(l: List<T>, pos: number): T {
  * @return {number} number The length of the list.
  */
 function listLength<T>(l: List<T>): number {
-    function listLengthINT<T>(l: List<T>, res: number): number {
-        if (isEmpty(l))
-            return res;
-        return listLengthINT(tail(l), res + 1);
-    }
-    return listLengthINT(l, 0);
+    let [cursor, length] = [l, 0];
+    while (!isEmpty(cursor))
+        [cursor, length] = [tail(cursor), length + 1];
+    return length;
 }
 
 /**
@@ -268,14 +272,13 @@ function listLength<T>(l: List<T>): number {
  * @return {number} number The index of the first element that satisfies the comparison function, or -1 if no such element is found.
  */
 function searchList<T>(l: List<T>, elt: T, cmpFunc: (elt1: T, elt2: T) => boolean): number {
-    function searchListINT<T>(l: List<T>, elt: T, pos: number, cmpFunc: (elt1: T, elt2: T) => boolean): number {
-        if (isEmpty(l))
-            return -1;
-        if (cmpFunc(head(l), elt))
+    let [cursor, pos] = [l, 0];
+    while (!isEmpty(cursor)) {
+        if (cmpFunc(head(cursor), elt))
             return pos;
-        return searchListINT(tail(l), elt, pos + 1, cmpFunc);
+        [cursor, pos] = [tail(cursor), pos + 1];
     }
-    return searchListINT(l, elt, 0, cmpFunc);
+    return -1;
 }
 
 /**
@@ -286,9 +289,21 @@ function searchList<T>(l: List<T>, elt: T, cmpFunc: (elt1: T, elt2: T) => boolea
  * @returns {List<T>} A linked list containing the elements of the array.
  */
 function arrayToList<T>(arr: T[]): List<T> {
-    if (arr.length === 0)
-        return nil;
-    return cons(arr[0], arrayToList(arr.slice(1)));
+    return prependArray(arr, nil);
+}
+
+/**
+ * @brief Convert a linked list to an array.
+ *
+ * @typeparam T Type of the elements in the list and array.
+ * @param {List<T>} l The list to convert.
+ * @returns {T[]} An array containing the elements of the list, in the same order.
+ */
+function listToArray<T>(l: List<T>): T[] {
+    const arr: T[] = [];
+    for (let cursor = l; !isEmpty(cursor); cursor = tail(cursor))
+        arr.push(head(cursor));
+    return arr;
 }
 
 /**
@@ -303,25 +318,25 @@ function arrayToList<T>(arr: T[]): List<T> {
  * @tparam T The type of the elements in the lists.
  */
 function concatList<T>(l1: List<T>, l2: List<T>): List<T> {
-    if (isEmpty(l1))
-        return l2;
-    return cons(head(l1), concatList(tail(l1), l2));
+    return prependArray(listToArray(l1), l2);
 }
 
 /**
  * @brief Returns a random element from a list.
  *
  * This function returns a random element from a given list l. If the list is empty, returns undefined.
+ * The same list and the same generator always give the same element.
  *
  * @param {List<T>} l The input list.
+ * @param {Rng} rng The random number generator to draw the element with.
  * @return {T | undefined} Returns a random element from l, or undefined if l is empty.
  *
  * @tparam T The type of the elements in the list.
  */
-function randomList<T>(l: List<T>): T | undefined {
+function randomList<T>(l: List<T>, rng: Rng): T | undefined {
     if (isEmpty(l))
         return undefined;
-    return readListAt(l, Math.floor(Math.random() * listLength(l)));
+    return readListAt(l, randomInt(rng, listLength(l))[0]);
 }
 
 export {
@@ -344,6 +359,7 @@ export {
     listLength,
     searchList,
     arrayToList,
+    listToArray,
     concatList,
     randomList,
 };
\ No newline at end of file
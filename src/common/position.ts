@@ -148,6 +148,24 @@ function positionDistance(pos1: Position, pos2: Position): number {
     return Math.sqrt(Math.pow(pos1.x - pos2.x, 2) + Math.pow(pos1.y - pos2.y, 2));
 }
 
+/**
+ * @brief Returns a key identifying a position among all the positions with integer coordinates.
+ *
+ * The coordinates are folded onto the non-negative integers, then paired into a single integer,
+ * so that two positions have the same key if and only if they are equal.
+ *
+ * @param position The position, with integer coordinates.
+ * @return The non-negative integer key of the position.
+ *
+ * @example
+ * // The keys of (0, 0), (1, 0), (0, 1) and (-1, 0)
+ * const keys = [createPosition(0, 0), createPosition(1, 0), createPosition(0, 1), createPosition(-1, 0)].map(positionKey); // [0, 6, 4, 2]
+ */
+function positionKey(position: Position): number {
+    const [x, y] = [position.x, position.y].map((coordinate) => coordinate >= 0 ? 2 * coordinate : -2 * coordinate - 1);
+    return x >= y ? x * x + x + y : x + y * y;
+}
+
 export {
     Position,
     createPosition,
@@ -157,5 +175,6 @@ export {
     setPositionY,
     translatePosition,
     positionEquals,
-    positionDistance
+    positionDistance,
+    positionKey
 };
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * @file random.ts
+ * @brief This file contains the implementation of a seedable pseudo-random number generator.
+ */
+
+/**
+ * @brief The state of a pseudo-random number generator (mulberry32).
+ *
+ * An Rng is an immutable value: drawing a number returns the number and the next state.
+ */
+type Rng = {
+    readonly seed: number;
+}
+
+/**
+ * @brief Creates a new random number generator from a seed.
+ *
+ * @param {number} seed - The seed of the generator.
+ * @returns {Rng} A new generator, always producing the same sequence for the same seed.
+ *
+ * @example
+ * const rng = createRng(42);
+ */
+const createRng = (seed: number): Rng => ({ seed: seed | 0 });
+
+/**
+ * @brief Draws a number in [0, 1) from a generator.
+ *
+ * @param {Rng} rng - The generator to draw from.
+ * @returns {[number, Rng]} The drawn number and the next state of the generator.
+ */
+function nextRandom(rng: Rng): [number, Rng] {
+    const seed = (rng.seed + 0x6D2B79F5) | 0;
+    let r = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return [((r ^ (r >>> 14)) >>> 0) / 4294967296, { seed: seed }];
+}
+
+/**
+ * @brief Draws an integer in [0, n) from a generator.
+ *
+ * @param {Rng} rng - The generator to draw from.
+ * @param {number} n - The exclusive upper bound.
+ * @returns {[number, Rng]} The drawn integer and the next state of the generator.
+ */
+function randomInt(rng: Rng, n: number): [number, Rng] {
+    const [r, next] = nextRandom(rng);
+    return [Math.floor(r * n), next];
+}
+
+/**
+ * @brief Derives an independent generator from a generator and a key.
+ *
+ * Two different keys give two unrelated sequences, which lets every actor draw its own numbers from the same game state.
+ *
+ * @param {Rng} rng - The generator to derive from.
+ * @param {number} key - The key of the derived generator (an actor id for instance).
+ * @returns {Rng} The derived generator.
+ */
+function splitRng(rng: Rng, key: number): Rng {
+    let h = Math.imul(rng.seed ^ Math.imul(key + 1, 0x9E3779B9), 0x85EBCA6B);
+    h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+    return createRng(h ^ (h >>> 16));
+}
+
+export {
+    Rng,
+    createRng,
+    nextRandom,
+    randomInt,
+    splitRng
+};
@@ -3,31 +3,80 @@
  * @brief This file contains the implementation of the game engine functions.
  */
 
-import { World } from "./../world/world";
-import { Actor, getActorsByType } from "../actors/actors";
-import { List, isEmpty } from "../common/list";
+import { World, advanceWorldRng, nextTurn } from "./../world/world";
+import { wavesAreExhausted } from "../world/waves";
+import { ActorStore, getStoredActorsByType, storeToList } from "../actors/actorStore";
+import { getPhaseAction } from "../actors/actors";
+import { List, isEmpty, listFoldR, listMap } from "../common/list";
+import { Phase } from "./phases";
 
 /**
  * The winner of the game.
  */
 type Winner = "ENEMY" | "TOWER" | "NONE"
 
+/**
+ * A function called after each phase with the actors that made the proposals, their proposals and the resolved actors.
+ */
+type PhaseObserver = (aPhase: Phase, actors: ActorStore, proposals: List<unknown>, resolvedActors: ActorStore) => void
+
+/**
+ * @brief A function that waits for a given number of milliseconds before resolving.
+ *
+ * @param {number} ms The number of milliseconds to wait.
+ * @return {Promise} A promise that resolves after the given number of milliseconds.
+ */
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
 /**
  * @brief Check if the game is over.
  *
+ * The towers win once every wave has spawned and no enemy is left, the enemies win once no goal is left.
+ *
  * @param aWorld The current world state of the game.
- * @param actors The list of actors in the game.
+ * @param actors The store of the actors of the game.
  * @return The winner of the game.
  */
-function gameIsOver(aWorld: World, actors: List<Actor>): Winner {
-    if (isEmpty(getActorsByType(actors, "ENEMY")) && isEmpty(getActorsByType(actors, "SPAWNER")))
+function gameIsOver(aWorld: World, actors: ActorStore): Winner {
+    if (wavesAreExhausted(aWorld) && isEmpty(getStoredActorsByType(actors, "ENEMY")))
         return "TOWER";
-    if (isEmpty(getActorsByType(actors, "GOAL")))
+    if (isEmpty(getStoredActorsByType(actors, "GOAL")))
         return "ENEMY";
     return "NONE";
 }
 
+/**
+ * @brief Plays one turn of the game.
+ *
+ * Every phase asks each actor for a proposal, then resolves the proposals with the resolver of the phase.
+ * The random number generator of the world moves forward after each phase, so a given seed always plays the same game.
+ * The turn of the world is incremented before the first phase.
+ * The events emitted by the resolvers stay in the world until the next turn, to be published to an event bus.
+ * The actions of the actors of a phase all read the same list of actors, the one of the store.
+ *
+ * @param aWorld The current world state of the game.
+ * @param actors The store of the actors of the game.
+ * @param phases The phases of a turn.
+ * @param observer An optional function called after each phase (to record a replay for instance).
+ * @return The world and the store of the actors at the end of the turn.
+ */
+function playTurn(aWorld: World, actors: ActorStore, phases: List<Phase>, observer?: PhaseObserver): [World, ActorStore] {
+    return listFoldR(([aWorld, actors], aPhase) => {
+        // Generate proposals for each actor based on the current phase
+        const actorList = storeToList(actors);
+        const proposals = listMap((anActor) => getPhaseAction(anActor, aPhase.funcName)?.(anActor, aWorld, actorList), actorList);
+
+        // Resolve the proposals using the phase's resolver function
+        const [newWorld, newActors] = aPhase.resolver(aWorld, actors, proposals);
+        observer?.(aPhase, actors, proposals, newActors);
+        return [advanceWorldRng(newWorld), newActors];
+    }, <[World, ActorStore]>[nextTurn(aWorld), actors], phases);
+}
+
 export {
     gameIsOver,
+    playTurn,
+    PhaseObserver,
+    sleep,
     Winner
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+/**
+ * @file events.ts
+ * @brief This file contains the bus dispatching the events of the game (see world/events.ts) to their subscribers.
+ */
+
+import { GameEvent, GameEventKind } from "../world/events";
+import { List, listToArray } from "../common/list";
+
+/**
+ * @brief A function called with the events it subscribed to.
+ */
+type EventListener<Event extends GameEvent = GameEvent> = (event: Event) => void
+
+/**
+ * @brief The bus dispatching the events of the game to their subscribers.
+ *
+ * @property {Function} subscribe - Calls a listener with every event of a kind, or with every event without kind. Returns the function unsubscribing it.
+ * @property {Function} publish - Calls the listeners of the given events, in order.
+ */
+type EventBus = {
+    readonly subscribe: {
+        <Kind extends GameEventKind>(kind: Kind, listener: EventListener<Extract<GameEvent, { kind: Kind }>>): () => void;
+        (listener: EventListener): () => void;
+    };
+    readonly publish: (events: List<GameEvent>) => void;
+}
+
+/**
+ * @brief Creates an event bus with no subscriber.
+ *
+ * @returns {EventBus} The new event bus.
+ */
+function createEventBus(): EventBus {
+    let listeners: [GameEventKind | undefined, EventListener][] = [];
+    function subscribe(kindOrListener: GameEventKind | EventListener, listener?: EventListener): () => void {
+        const subscription: [GameEventKind | undefined, EventListener] = typeof kindOrListener === "function" ? [undefined, kindOrListener] : [kindOrListener, <EventListener>listener];
+        listeners = [...listeners, subscription];
+        return () => {
+            listeners = listeners.filter((other) => other !== subscription);
+        };
+    }
+    const publish = (events: List<GameEvent>) =>
+        listToArray(events).forEach((event) => listeners
+            .filter(([kind]) => kind === undefined || kind === event.kind)
+            .forEach(([, listener]) => listener(event)));
+    return { subscribe: <EventBus["subscribe"]>subscribe, publish: publish };
+}
+
+export {
+    EventListener,
+    EventBus,
+    createEventBus
+};
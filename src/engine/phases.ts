@@ -4,171 +4,357 @@
  */
 
 import { World, isInWorld } from "../world/world";
-import { Actor, ActorActions, getActorById, removeActor, replaceActor, setLifePoint } from "../actors/actors";
-import { List, appendList, arrayToList, listFoldR } from "../common/list";
+import { Position, createPosition, positionEquals } from "../common/position";
+import { gridDistance } from "../common/graph";
+import { consumeSpawn } from "../world/waves";
+import { earn, getBounty } from "../world/economy";
+import { Actor, blocksEnemies, canSpawnAmong, cellCapacity, getActorsByType, setActorPosition, setLifePoint } from "../actors/actors";
+import { AttackProposal, HealProposal, MoveProposal, SpawnProposal } from "../actors/proposals";
+import { ActorStore, addStoredActor, getStoredActor, getStoredActorsAtPos, getStoredActorsByType, removeStoredActor, replaceStoredActor, storeToList } from "../actors/actorStore";
+import { StatusEffect, addEffect, getEffects, getPoisonDamage, hasEffect, tickEffects } from "../actors/effects";
+import { ProjectileOptions, advanceProjectile, hasLanded, launchProjectile } from "../actors/projectiles";
+import { emit } from "../world/events";
+import { List, arrayToList, emptyList, isEmpty, listFoldR, listLength, listToArray } from "../common/list";
 
 /**
- * @typedef Proposal
+ * @typedef Resolver
  *
- * @brief A proposal for an action to be taken by an actor during a game phase.
+ * @brief A function that resolves the proposals of actors during a game phase.
  *
- * @property {MoveProposal} MoveProposal - An actor movement proposal.
- * @property {AttackProposal} AttackProposal - An actor attack proposal.
- * @property {SpawnProposal} SpawnProposal - An actor spawn proposal.
- * @property {HealProposal} HealProposal - An actor healing proposal.
- * @property {undefined} undefined - An undefined proposal.
+ * @param {World} aWorld - The game world.
+ * @param {ActorStore} actors - The store of the actors.
+ * @param {List<ProposalType | undefined>} proposals - The list of proposals to be resolved, in the same order as the actors of the store.
+ * @returns {Array} A tuple of the updated world and the updated store of the actors.
  */
-type Proposal = MoveProposal | AttackProposal | SpawnProposal | HealProposal | undefined
+type Resolver<ProposalType = unknown> = (aWorld: World, actors: ActorStore, proposals: List<ProposalType | undefined>) => [World, ActorStore]
 
 /**
- * @typedef MoveProposal
+ * @typedef Phase
  *
- * @brief An actor movement proposal.
+ * @brief A game phase.
  *
- * @type {Actor}
+ * @property {string} funcName - The function name in ActorActions corresponding to the phase, the name of the phase.
+ * @property {Resolver} resolver - The resolver function for the phase.
  */
-type MoveProposal = Actor
+type Phase = {
+    readonly funcName: string;
+    resolver: Resolver
+}
 
 /**
- * @typedef AttackProposal
+ * @brief Returns the distance from an actor to the closest goal, the priority of its move.
  *
- * @brief An actor attack proposal.
+ * @param {World} aWorld - The game world.
+ * @param {ActorStore} actors - The store of the actors.
+ * @param {number} id - The id of the actor.
+ * @returns {number} The distance to the closest goal, Infinity if there is no goal.
+ */
+function distanceToGoal(aWorld: World, actors: ActorStore, id: number): number {
+    const anActor = getStoredActor(actors, id);
+    if (!anActor)
+        return Infinity;
+    return listFoldR((acc, goal) => Math.min(acc, gridDistance(anActor.position, goal.position, aWorld.graph.connectivity ?? 4)), Infinity, getStoredActorsByType(actors, "GOAL"));
+}
+
+/**
+ * @brief Checks whether the enemies can walk on a position: no actor blocking the enemies stands on it (see isWalkableByEnemy).
  *
- * @property {number} id - The id of the attacked actor
- * @property {number} damage - The amount of damage
+ * @param {ActorStore} actors - The store of the actors.
+ * @param {Position} pos - The position.
+ * @returns {boolean} True if the enemies can walk on the position.
  */
-type AttackProposal = List<{ id: number, damage: number }>
+const isWalkable = (actors: ActorStore, pos: Position): boolean =>
+    listFoldR((acc, anActor) => acc && !blocksEnemies(anActor), true, getStoredActorsAtPos(actors, pos));
 
 /**
- * @typedef SpawnProposal
+ * @brief Checks whether an actor can move to a position.
  *
- * @brief An actor spawn proposal.
+ * A move is a single step to a neighbour cell of the world, which does not cut the corner of a blocking actor,
+ * does not enter a cell taken by a blocking actor (neither ENEMY nor GOAL) and does not exceed the capacity of the cell.
+ * Frozen actors do not move, slowed actors only move on even turns.
  *
- * @property {Actor} newState - The new actor state.
- * @property {Actor} spawnedActor - The actor to be spawned.
+ * @param {World} aWorld - The game world.
+ * @param {ActorStore} actors - The store of the actors, with the moves already resolved.
+ * @param {Actor} mover - The actor to move.
+ * @param {Position} target - The position the actor wants to move to.
+ * @returns {boolean} True if the actor can move to the position.
  */
-type SpawnProposal = Actor | undefined
+function canMove(aWorld: World, actors: ActorStore, mover: Actor, target: Position): boolean {
+    if (hasEffect(mover, "FREEZE") || (hasEffect(mover, "SLOW") && aWorld.turn % 2 === 1))
+        return false;
+    if (positionEquals(mover.position, target) || !isInWorld(aWorld, target))
+        return false;
+    if (gridDistance(mover.position, target, aWorld.graph.connectivity ?? 4) > Math.SQRT2)
+        return false;
+    const cutsCorner = mover.position.x !== target.x && mover.position.y !== target.y
+        && (!isWalkable(actors, createPosition(target.x, mover.position.y)) || !isWalkable(actors, createPosition(mover.position.x, target.y)));
+    if (cutsCorner || !isWalkable(actors, target))
+        return false;
+    return listLength(getActorsByType(getStoredActorsAtPos(actors, target), "ENEMY")) < cellCapacity;
+}
 
 /**
- * @typedef HealProposal
+ * @brief Checks whether an actor can be spawned on a position.
  *
- * @brief An actor healing proposal.
+ * The position must be in the world, must not be taken by an actor other than an enemy, a spawner or a projectile
+ * and must not exceed the capacity of the cell.
  *
- * @property {number} id - The id of the healed actor
- * @property {number} heal - The amount of heal
+ * @param {World} aWorld - The game world.
+ * @param {ActorStore} actors - The store of the actors, with the spawns already resolved.
+ * @param {Position} position - The position of the spawned actor.
+ * @returns {boolean} True if an actor can be spawned on the position.
  */
-type HealProposal = List<{ id: number, heal: number }>
+const canSpawn = (aWorld: World, actors: ActorStore, position: Position): boolean =>
+    canSpawnAmong(aWorld, getStoredActorsAtPos(actors, position), position);
 
 /**
- * @typedef Resolver
+ * @brief Pairs each proposal with the actor that made it.
  *
- * @brief A function that resolves the proposals of actors during a game phase.
+ * @param {ActorStore} actors - The store of the actors.
+ * @param {List<P>} proposals - The proposals, in the same order as the actors of the store.
+ * @returns {List<[Actor, P]>} The actors and their proposals.
+ */
+function withSources<P>(actors: ActorStore, proposals: List<P>): List<[Actor, P]> {
+    const sources = listToArray(storeToList(actors));
+    return arrayToList(listToArray(proposals).map((proposal, i): [Actor, P] => [sources[i], proposal]));
+}
+
+/**
+ * @brief Deals damage to an actor and removes it when it is killed, killed enemies paying their bounty.
  *
- * @param {World} aWorld - The game world.
- * @param {List<Actor>} actors - The list of actors.
- * @param {List<Proposal>} proposals - The list of proposals to be resolved.
- * @returns {Array} A tuple of the updated world and the updated list of actors.
+ * @param {[World, ActorStore]} acc - The world and the actors.
+ * @param {number} source - The id of the actor dealing the damage.
+ * @param {Actor} target - The damaged actor.
+ * @param {number} damage - The damage dealt.
+ * @returns {[World, ActorStore]} The world with the events of the damage and the actors, without the target if it was killed.
+ */
+function damageActor([aWorld, actors]: [World, ActorStore], source: number, target: Actor, damage: number): [World, ActorStore] {
+    const damaged = emit(aWorld, { kind: "ActorDamaged", turn: aWorld.turn, source: source, target: target.id, damage: damage, health: target.health - damage });
+    if (target.health > damage)
+        return [damaged, replaceStoredActor(actors, setLifePoint(target, target.health - damage))];
+    const killed = emit(damaged, { kind: "ActorKilled", turn: aWorld.turn, source: source, target: target.id, name: target.name });
+    return [target.type === "ENEMY" ? earn(killed, getBounty(target)) : killed, removeStoredActor(actors, target.id)];
+}
+
+/**
+ * @brief Deals the damage of a hit to an actor, then applies its status effect if the actor survives.
+ *
+ * @param {[World, ActorStore]} acc - The world and the actors.
+ * @param {number} source - The id of the actor dealing the hit.
+ * @param {Actor} target - The hit actor.
+ * @param {number} damage - The damage dealt.
+ * @param {StatusEffect} effect - The status effect applied, if any.
+ * @returns {[World, ActorStore]} The world with the events of the hit and the actors.
  */
-type Resolver = (aWorld: World, actors: List<Actor>, proposals: List<Proposal>) => [World, List<Actor>]
+function hitActor(acc: [World, ActorStore], source: number, target: Actor, damage: number, effect?: StatusEffect): [World, ActorStore] {
+    const [newWorld, newActors] = damageActor(acc, source, target, damage);
+    const wounded = getStoredActor(newActors, target.id);
+    if (wounded && effect)
+        return [newWorld, replaceStoredActor(newActors, addEffect(wounded, { ...effect, source: source }))];
+    return [newWorld, newActors];
+}
 
 /**
- * @typedef Phase
+ * @brief Makes the projectiles in flight travel, and the landed ones hit their target.
  *
- * @brief A game phase.
+ * The projectiles travel in the order of the store. A landed projectile is removed.
+ * It only hits its target if the target stands on the impact cell, otherwise the target dodged it.
  *
- * @property {keyof ActorActions} funcName - The function name in ActorActions corresponding to the phase.
- * @property {Resolver} resolver - The resolver function for the phase.
+ * @param {World} aWorld - The game world.
+ * @param {ActorStore} actors - The store of the actors.
+ * @returns {[World, ActorStore]} The world and the actors once the projectiles travelled.
  */
-type Phase = {
-    readonly funcName: keyof ActorActions;
-    resolver: Resolver
+function flyProjectiles(aWorld: World, actors: ActorStore): [World, ActorStore] {
+    return listToArray(getStoredActorsByType(actors, "PROJECTILE")).reduce(function (acc: [World, ActorStore], projectile) {
+        if (!projectile.flight)
+            return acc;
+        const flown = advanceProjectile(projectile, acc[1]);
+        const moved = positionEquals(flown.position, projectile.position) ? acc[0]
+            : emit(acc[0], { kind: "ActorMoved", turn: aWorld.turn, source: projectile.id, from: projectile.position, to: flown.position });
+        if (!hasLanded(flown) || !flown.flight)
+            return [moved, replaceStoredActor(acc[1], flown)];
+        const { source, target, impact, damage, effect } = flown.flight;
+        const aimed = getStoredActor(acc[1], target);
+        const landed: [World, ActorStore] = [moved, removeStoredActor(acc[1], projectile.id)];
+        if (!aimed)
+            return landed;
+        if (positionEquals(aimed.position, impact))
+            return hitActor(landed, source, aimed, damage, effect);
+        return [emit(moved, { kind: "ProjectileMissed", turn: aWorld.turn, source: source, projectile: projectile.id, target: target, impact: impact }), landed[1]];
+    }, [aWorld, actors]);
 }
 
 /**
- * @typedef PhaseAction
+ * @brief Deals the damage of the poisons and makes every status effect last one turn less.
  *
- * @brief A function that returns an action proposal for an actor in a game phase.
+ * The enemies killed by a poison pay their bounty like the ones killed by an attack.
+ * The damage of a poison comes from the actor that applied it.
  *
- * @param {Actor} anActor - The actor for which to return the proposal.
  * @param {World} aWorld - The game world.
- * @param {List<Actor>} actors - The list of actors.
- * @returns {Proposal} A proposal for an action to be taken by the actor in the game phase.
+ * @param {ActorStore} actors - The store of the actors.
+ * @returns {[World, ActorStore]} The world and the actors once the effects are applied.
+ */
+function applyEffects(aWorld: World, actors: ActorStore): [World, ActorStore] {
+    return listFoldR(function (acc: [World, ActorStore], anActor) {
+        const damage = getPoisonDamage(anActor);
+        if (damage <= 0)
+            return [acc[0], replaceStoredActor(acc[1], tickEffects(anActor))];
+        const poison = listToArray(getEffects(anActor)).find((effect) => effect.kind === "POISON");
+        const [newWorld, newActors] = damageActor(acc, poison?.source ?? anActor.id, anActor, damage);
+        const poisoned = getStoredActor(newActors, anActor.id);
+        return [newWorld, poisoned ? replaceStoredActor(newActors, tickEffects(poisoned)) : newActors];
+    }, [aWorld, actors], storeToList(actors));
+}
+
+/**
+ * @brief The resolvers of the registered phases, by phase name.
+ *
+ * Every resolver emits the events of the changes it makes to the actors in the world (see events.ts).
+ */
+const phaseRegistry: Record<string, Resolver> = {
+    //the movers closest to a goal move first, the others stay in place when their move breaks a rule
+    move: function (aWorld: World, actors: ActorStore, proposals: List<MoveProposal>): [World, ActorStore] {
+        const moves = listToArray(proposals)
+            .filter((proposal): proposal is Actor => proposal !== undefined)
+            .map((proposal): [Actor, number] => [proposal, distanceToGoal(aWorld, actors, proposal.id)])
+            .sort(([proposal1, distance1], [proposal2, distance2]) => distance1 - distance2 || proposal1.id - proposal2.id);
+        return moves.reduce(function (acc: [World, ActorStore], [proposal]) {
+            const mover = getStoredActor(acc[1], proposal.id);
+            if (mover && canMove(aWorld, acc[1], mover, proposal.position))
+                return [emit(acc[0], { kind: "ActorMoved", turn: aWorld.turn, source: mover.id, from: mover.position, to: proposal.position }),
+                    replaceStoredActor(acc[1], setActorPosition(mover, proposal.position))];
+            return acc;
+        }, [aWorld, actors]);
+    },
+    //the projectiles in flight travel first, then an attack can apply a status effect (poison, freeze, slow) or throw a projectile
+    attack: function (aWorld: World, actors: ActorStore, proposals: List<AttackProposal>): [World, ActorStore] {
+        return listFoldR(function (acc, [attacker, proposal]) {
+            if (proposal)
+                return listFoldR(function (acc2: [World, ActorStore], attack) {
+                    const anActor = getStoredActor(acc2[1], attack.id);
+                    if (!anActor)
+                        return acc2;
+                    if (!attack.projectile)
+                        return hitActor(acc2, attacker.id, anActor, attack.damage, attack.effect);
+                    const projectile = launchProjectile(attacker, anActor, attack.projectile, attack.damage, attack.effect);
+                    return [emit(acc2[0], { kind: "ProjectileLaunched", turn: aWorld.turn, source: attacker.id, projectile: projectile.id, target: anActor.id, name: projectile.name, impact: anActor.position }),
+                        addStoredActor(acc2[1], projectile)];
+                }, acc, proposal);
+            return acc;
+        }, flyProjectiles(aWorld, actors), withSources(actors, proposals));
+    },
+    //a spawner emits its actors in order and stops at the first refused one, which waits for the next turn
+    spawn: function (aWorld: World, actors: ActorStore, proposals: List<SpawnProposal>): [World, ActorStore] {
+        return listToArray(withSources(actors, proposals)).reduce(function (acc: [World, ActorStore], [spawner, proposal]) {
+            const [newWorld, newActors] = listToArray(<List<Actor>>(proposal ?? emptyList())).reduce(function ([aWorld, actors, stopped]: [World, ActorStore, boolean], spawned) {
+                if (stopped || !canSpawn(aWorld, actors, spawned.position))
+                    return [aWorld, actors, true];
+                const spawnedWorld = emit(aWorld, { kind: "ActorSpawned", turn: aWorld.turn, source: spawner.id, target: spawned.id, name: spawned.name, position: spawned.position });
+                return [consumeSpawn(spawnedWorld, spawner.position), addStoredActor(actors, spawned), false];
+            }, [...acc, false]);
+            return [newWorld, newActors];
+        }, [aWorld, actors]);
+    },
+    //after the heals, the poisons deal their damage and every status effect lasts one turn less
+    heal: function (aWorld: World, actors: ActorStore, proposals: List<HealProposal>): [World, ActorStore] {
+        const healed: [World, ActorStore] = listFoldR(function (acc, [healer, proposal]) {
+            if (proposal)
+                return listFoldR(function (acc2: [World, ActorStore], attack) {
+                    const anActor = getStoredActor(acc2[1], attack.id);
+                    if (!anActor)
+                        return acc2;
+                    const health = Math.min(anActor.health + attack.heal, anActor.maxHealth);
+                    if (health <= anActor.health)
+                        return acc2;
+                    return [emit(acc2[0], { kind: "ActorHealed", turn: aWorld.turn, source: healer.id, target: anActor.id, heal: health - anActor.health, health: health }),
+                        replaceStoredActor(acc2[1], setLifePoint(anActor, health))];
+                }, acc, proposal);
+            return acc;
+        }, <[World, ActorStore]>[aWorld, actors], withSources(actors, proposals));
+        return applyEffects(...healed);
+    }
+};
+
+/**
+ * @brief The order the phases of a turn are played in when the world does not choose one.
+ */
+const defaultPhaseOrder: readonly string[] = ["heal", "spawn", "attack", "move"];
+
+/**
+ * @brief Registers a new phase.
+ *
+ * During the phase, every actor with an action named after the phase in its custom ActorActions makes a proposal,
+ * then the resolver turns the proposals into the new state of the game. Actors without such an action propose undefined.
+ * The registry is shared by every game: a phase registered for a game or a test stays registered until unregisterPhase removes it.
+ *
+ * @param {string} name - The name of the phase, also the name of the actions of the actors.
+ * @param {Resolver<ProposalType>} resolver - The resolver of the phase.
+ * @throws An error if a phase is already registered with this name.
  */
-type PhaseAction<ProposalType> = (anActor: Actor, aWorld: World, actors: List<Actor>) => ProposalType;
+function registerPhase<ProposalType>(name: string, resolver: Resolver<ProposalType>): void {
+    if (Object.prototype.hasOwnProperty.call(phaseRegistry, name))
+        throw new Error(`Phase "${name}" is already registered`);
+    phaseRegistry[name] = <Resolver>resolver;
+}
+
+/**
+ * @brief Removes a phase registered with registerPhase.
+ *
+ * @param {string} name - The name of the phase.
+ * @throws An error if no phase has this name, or if the phase is a built-in one.
+ */
+function unregisterPhase(name: string): void {
+    if (defaultPhaseOrder.includes(name))
+        throw new Error(`Phase "${name}" is built in`);
+    if (!Object.prototype.hasOwnProperty.call(phaseRegistry, name))
+        throw new Error(`Unknown phase "${name}"`);
+    delete phaseRegistry[name];
+}
+
+/**
+ * @brief Returns the names of all the registered phases.
+ *
+ * @returns {string[]} The phase names.
+ */
+const getPhaseNames = (): string[] => Object.keys(phaseRegistry);
 
+/**
+ * @brief Returns the phase registered with the given name.
+ *
+ * @param {string} name - The name of the phase.
+ * @returns {Phase} The phase.
+ * @throws An error if no phase has this name.
+ */
+function getPhase(name: string): Phase {
+    if (!Object.prototype.hasOwnProperty.call(phaseRegistry, name))
+        throw new Error(`Unknown phase "${name}"`);
+    return { funcName: name, resolver: phaseRegistry[name] };
+}
 
 /**
  * @brief Computes the different phases of the game based on the current state of the game.
  *
+ * The phases are played in the order chosen by the world, or in the default order.
+ * A turn folds the phases from the end of the list, so the list holds them from the last played to the first.
+ *
  * @param {World} world - The current world state of the game.
- * @param {List<Actor>} actors - The current list of actors in the game.
- * @returns {Phase[]} - An array containing the different phases of the game.
- */
-function computePhases(world: World, actors: List<Actor>): List<Phase> {
-    return arrayToList(<Phase[]>[
-        {
-            funcName: "move", //potentially it can take in consideration different kind of field (some can slow you...)
-            resolver: function (aWorld: World, actors: List<Actor>, proposals: List<MoveProposal>): [World, List<Actor>] {
-                return listFoldR(function (acc, proposal) {
-                    if (proposal && isInWorld(aWorld, proposal.position))
-                        return [acc[0], replaceActor(acc[1], proposal)];
-                    return acc;
-                }, [aWorld, actors], proposals);
-            }
-        }, {
-            funcName: "attack", //potentially we can add side affect such as poison, freeze...
-            resolver: function (aWorld: World, actors: List<Actor>, proposals: List<AttackProposal>): [World, List<Actor>] {
-                return listFoldR(function (acc, proposal) {
-                    if (proposal)
-                        return listFoldR(function (acc2, attack) {
-                            const anActor = getActorById(acc2[1], attack.id);
-                            if (anActor)
-                                if (anActor.health <= attack.damage)
-                                    return [acc2[0], removeActor(acc2[1], anActor.id)];
-                                else
-                                    return [acc2[0], replaceActor(acc2[1], setLifePoint(anActor, anActor.health - attack.damage))];
-                            return acc2;
-                        }, acc, proposal);
-                    return acc;
-                }, [aWorld, actors], proposals);
-            }
-        }, {
-            funcName: "spawn",
-            resolver: function (aWorld: World, actors: List<Actor>, proposals: List<SpawnProposal>): [World, List<Actor>] {
-                return listFoldR(function (acc, proposal) {
-                    if (proposal)
-                        return [acc[0], appendList(actors, proposal)];
-                    return acc;
-                }, [aWorld, actors], proposals);
-            }
-        }, {
-            funcName: "heal", //potentially this phase can be used to decrease the health of a monster, with poison for instance
-            resolver: function (aWorld: World, actors: List<Actor>, proposals: List<HealProposal>): [World, List<Actor>] {
-                return listFoldR(function (acc, proposal) {
-                    if (proposal)
-                        return listFoldR(function (acc2, attack) {
-                            const anActor = getActorById(acc2[1], attack.id);
-                            if (anActor)
-                                if (anActor.health + attack.heal > anActor.maxHealth)
-                                    return [acc2[0], replaceActor(acc2[1], setLifePoint(anActor, anActor.maxHealth))];
-                                else
-                                    return [acc2[0], replaceActor(acc2[1], setLifePoint(anActor, anActor.health + attack.heal))];
-                            return acc2;
-                        }, acc, proposal);
-                    return acc;
-                }, [aWorld, actors], proposals);
-            }
-        },
-    ]);
+ * @param {ActorStore} actors - The current store of the actors of the game.
+ * @returns {List<Phase>} - The phases of a turn, from the last played to the first.
+ * @throws An error if the world plays an unknown phase.
+ */
+function computePhases(world: World, actors: ActorStore): List<Phase> {
+    const order = isEmpty(world.phases) ? defaultPhaseOrder : listToArray(world.phases);
+    return arrayToList([...order].reverse().map(getPhase));
 }
 
 export {
     Phase,
-    PhaseAction,
-    Proposal,
-    MoveProposal,
-    AttackProposal,
-    SpawnProposal,
-    HealProposal,
+    Resolver,
+    canSpawn,
+    defaultPhaseOrder,
+    registerPhase,
+    unregisterPhase,
+    getPhaseNames,
+    getPhase,
     computePhases
 };
\ No newline at end of file
@@ -0,0 +1,228 @@
+/**
+ * @file placement.ts
+ * @brief This file contains the placement and the upgrade of towers by the player between two turns.
+ */
+
+import { World, isInWorld } from "../world/world";
+import { spend, getCost } from "../world/economy";
+import { Actor, getActorsByType, setActorPosition, setLifePoint } from "../actors/actors";
+import { ActorStore, addStoredActor, getStoredActorsAtPos, replaceStoredActor, storeToList } from "../actors/actorStore";
+import { createActorFromTemplate, getTemplate } from "../actors/templateRegistry";
+import { TargetingPolicy, isTargetingPolicy, setTargeting } from "../actors/targeting";
+import { List, appendList, head, isEmpty, listFoldR } from "../common/list";
+import { Position, createPosition } from "../common/position";
+import { pathfinding } from "../common/graph";
+
+/**
+ * @brief A tower the player asked to place.
+ *
+ * @property {string} template - The name of the template of the tower.
+ * @property {Position} position - The position of the tower.
+ */
+type PlacementOrder = {
+    readonly template: string;
+    readonly position: Position;
+}
+
+/**
+ * @brief A tower the player asked to upgrade.
+ *
+ * @property {Position} position - The position of the tower.
+ */
+type UpgradeOrder = {
+    readonly upgrade: true;
+    readonly position: Position;
+}
+
+/**
+ * @brief A tower the player asked to change the targeting policy of.
+ *
+ * @property {TargetingPolicy} policy - The new targeting policy of the tower.
+ * @property {Position} position - The position of the tower.
+ */
+type TargetOrder = {
+    readonly policy: TargetingPolicy;
+    readonly position: Position;
+}
+
+/**
+ * @brief An order of the player between two turns: a tower to place, a tower to upgrade or a tower to retarget.
+ */
+type PlayerOrder = PlacementOrder | UpgradeOrder | TargetOrder
+
+/**
+ * @brief The word the player types or picks instead of a template to upgrade a tower.
+ */
+const upgradeKeyword = "upgrade";
+
+/**
+ * @brief The word the player types or picks instead of a template to change the targeting policy of a tower.
+ */
+const targetKeyword = "target";
+
+/**
+ * @brief Returns a spawner that cannot reach any goal.
+ *
+ * @param {World} aWorld - The world of the game.
+ * @param {List<Actor>} actors - The actors of the game.
+ * @return {Actor | undefined} The first spawner with no path to a goal, or undefined if there is none.
+ */
+function getBlockedSpawner(aWorld: World, actors: List<Actor>): Actor | undefined {
+    const goals = getActorsByType(actors, "GOAL");
+    const reachesGoal = (spawner: Actor) =>
+        listFoldR((reached, goal) => reached || !isEmpty(pathfinding(spawner.position, goal.position, aWorld.graph, actors)), false, goals);
+    return listFoldR((acc: Actor | undefined, spawner) => acc ?? (reachesGoal(spawner) ? undefined : spawner), undefined, getActorsByType(actors, "SPAWNER"));
+}
+
+/**
+ * @brief Places a tower bought by the player.
+ *
+ * The tower must be in the world, on a free cell, and must leave a path from every spawner to a goal.
+ * Its cost is taken from the balance of the player.
+ *
+ * @param {World} aWorld - The world of the game.
+ * @param {ActorStore} actors - The actors of the game.
+ * @param {PlacementOrder} order - The tower to place.
+ * @return {[World, ActorStore]} The world with the new balance and the actors with the new tower.
+ * @throws An error explaining why the tower cannot be placed.
+ */
+function placeTower(aWorld: World, actors: ActorStore, order: PlacementOrder): [World, ActorStore] {
+    const where = `(${order.position.x}, ${order.position.y})`;
+    const template = getTemplate(order.template);
+    if (!template || template.type !== "TOWER")
+        throw new Error(`Template "${order.template}" is not a tower`);
+    if (!isInWorld(aWorld, order.position))
+        throw new Error(`Position ${where} is out of the world`);
+    if (!isEmpty(getStoredActorsAtPos(actors, order.position)))
+        throw new Error(`Position ${where} is already taken`);
+    const blocked = getBlockedSpawner(aWorld, appendList(storeToList(actors), setActorPosition(template, order.position)));
+    if (blocked)
+        throw new Error(`A tower at ${where} would cut the spawner at (${blocked.position.x}, ${blocked.position.y}) from every goal`);
+    const newWorld = spend(aWorld, getCost(template));
+    return [newWorld, addStoredActor(actors, createActorFromTemplate(order.template, order.position))];
+}
+
+/**
+ * @brief Upgrades a tower to the next tier declared by its template.
+ *
+ * The tower keeps its identifier, its position, its status effects and the targeting policy set by the player, if any, and otherwise takes the policy of the next tier.
+ * Its health is scaled to the maximum health of the next tier.
+ * The cost of the upgrade is taken from the balance of the player.
+ *
+ * @param {World} aWorld - The world of the game.
+ * @param {ActorStore} actors - The actors of the game.
+ * @param {Position} position - The position of the tower to upgrade.
+ * @return {[World, ActorStore]} The world with the new balance and the actors with the upgraded tower.
+ * @throws An error explaining why the tower cannot be upgraded.
+ */
+function upgradeTower(aWorld: World, actors: ActorStore, position: Position): [World, ActorStore] {
+    const where = `(${position.x}, ${position.y})`;
+    const towers = getActorsByType(getStoredActorsAtPos(actors, position), "TOWER");
+    if (isEmpty(towers))
+        throw new Error(`There is no tower at ${where}`);
+    const tower = head(towers);
+    const next = tower.upgrade ? getTemplate(tower.upgrade.template) : undefined;
+    if (!tower.upgrade || !next)
+        throw new Error(`${tower.name} at ${where} cannot be upgraded`);
+    const newWorld = spend(aWorld, tower.upgrade.cost);
+    const upgraded = { ...setActorPosition(next, position), id: tower.id, effects: tower.effects, ...(tower.targetingOverride ? { targetingOverride: tower.targetingOverride } : {}) };
+    return [newWorld, replaceStoredActor(actors, setLifePoint(upgraded, Math.round(tower.health * next.maxHealth / tower.maxHealth)))];
+}
+
+/**
+ * @brief Changes the way a placed tower picks its target.
+ *
+ * @param {ActorStore} actors - The actors of the game.
+ * @param {Position} position - The position of the tower.
+ * @param {TargetingPolicy} policy - The new targeting policy of the tower.
+ * @return {ActorStore} The actors with the retargeted tower.
+ * @throws An error if there is no tower at the position.
+ */
+function setTowerTargeting(actors: ActorStore, position: Position, policy: TargetingPolicy): ActorStore {
+    const towers = getActorsByType(getStoredActorsAtPos(actors, position), "TOWER");
+    if (isEmpty(towers))
+        throw new Error(`There is no tower at (${position.x}, ${position.y})`);
+    return replaceStoredActor(actors, setTargeting(head(towers), policy));
+}
+
+/**
+ * @brief Returns the order of the player naming a template, the upgrade keyword or the target keyword on a position.
+ *
+ * @param {string} name - The name of the template of the tower to place, the upgrade keyword or the target keyword.
+ * @param {Position} position - The position of the tower.
+ * @param {string} policy - The new targeting policy of the tower, only read with the target keyword.
+ * @return {PlayerOrder} The upgrade or the new policy of the tower at the position for the keywords, the placement of the tower otherwise.
+ * @throws An error if the target keyword comes without a targeting policy.
+ */
+function createPlayerOrder(name: string, position: Position, policy?: string): PlayerOrder {
+    if (name === upgradeKeyword)
+        return { upgrade: true, position: position };
+    if (name !== targetKeyword)
+        return { template: name, position: position };
+    if (!isTargetingPolicy(policy))
+        throw new Error(`Unknown targeting policy "${policy ?? ""}"`);
+    return { policy: policy, position: position };
+}
+
+/**
+ * @brief Applies an order of the player.
+ *
+ * @param {World} aWorld - The world of the game.
+ * @param {ActorStore} actors - The actors of the game.
+ * @param {PlayerOrder} order - The order.
+ * @return {[World, ActorStore]} The world and the actors once the order is applied.
+ * @throws An error explaining why the order is refused.
+ */
+function applyOrder(aWorld: World, actors: ActorStore, order: PlayerOrder): [World, ActorStore] {
+    if ("upgrade" in order)
+        return upgradeTower(aWorld, actors, order.position);
+    if ("policy" in order)
+        return [aWorld, setTowerTargeting(actors, order.position, order.policy)];
+    return placeTower(aWorld, actors, order);
+}
+
+/**
+ * @brief Places, upgrades and retargets the towers asked by the player between two turns, in order.
+ *
+ * @param {World} aWorld - The world of the game.
+ * @param {ActorStore} actors - The actors of the game.
+ * @param {PlayerOrder[]} orders - The orders of the player.
+ * @return {[World, ActorStore, string[]]} The world and the actors once the orders are applied, and the reasons of the refused orders.
+ */
+const applyPlacements = (aWorld: World, actors: ActorStore, orders: PlayerOrder[]): [World, ActorStore, string[]] =>
+    orders.reduce(([aWorld, actors, errors]: [World, ActorStore, string[]], order) => {
+        try {
+            return [...applyOrder(aWorld, actors, order), errors];
+        } catch (error) {
+            return [aWorld, actors, [...errors, (<Error>error).message]];
+        }
+    }, [aWorld, actors, []]);
+
+/**
+ * @brief Reads an order typed by the player.
+ *
+ * @param {string} text - The order, written "<template> <x> <y>" to place a tower, "upgrade <x> <y>" to upgrade one or "target <x> <y> <policy>" to change its targeting policy.
+ * @return {PlayerOrder} The order.
+ * @throws An error if the text is not an order.
+ */
+function parsePlacementOrder(text: string): PlayerOrder {
+    const words = text.trim().split(/\s+/);
+    if (words.length !== (words[0] === targetKeyword ? 4 : 3) || !/^-?\d+$/.test(words[1]) || !/^-?\d+$/.test(words[2]))
+        throw new Error(`Expected "<template> <x> <y>", "${upgradeKeyword} <x> <y>" or "${targetKeyword} <x> <y> <policy>", got "${text.trim()}"`);
+    return createPlayerOrder(words[0], createPosition(Number(words[1]), Number(words[2])), words[3]);
+}
+
+export {
+    PlacementOrder,
+    UpgradeOrder,
+    TargetOrder,
+    PlayerOrder,
+    upgradeKeyword,
+    targetKeyword,
+    placeTower,
+    upgradeTower,
+    setTowerTargeting,
+    createPlayerOrder,
+    applyPlacements,
+    parsePlacementOrder
+};
@@ -0,0 +1,233 @@
+/**
+ * @file replay.ts
+ * @brief This file contains the recording of games turn by turn and their playback.
+ */
+
+import { World, buildWorld } from "../world/world";
+import { Actor, ActorType } from "../actors/actors";
+import { StatusEffect } from "../actors/effects";
+import { ActorStore, createActorStore, storeToList } from "../actors/actorStore";
+import { List, arrayToList, listMap, listToArray } from "../common/list";
+import { Position } from "../common/position";
+import { printGame, printHealth } from "../graphics/consoleGraphics";
+import { sleep } from "./engine";
+import { Phase } from "./phases";
+
+/**
+ * @brief The state of an actor without its actions, as stored in a replay.
+ */
+type ActorSnapshot = {
+    readonly id: number;
+    readonly position: Position;
+    readonly type: ActorType;
+    readonly name: string;
+    readonly health: number;
+    readonly maxHealth: number;
+    readonly effects?: StatusEffect[];
+}
+
+/**
+ * @brief The proposal made by an actor during a phase.
+ *
+ * @property {number} id - The id of the actor that made the proposal.
+ * @property {unknown} proposal - The proposal, with lists stored as arrays and actors as snapshots.
+ */
+type ProposalRecord = {
+    readonly id: number;
+    readonly proposal: unknown;
+}
+
+/**
+ * @brief The proposals made during a phase.
+ */
+type PhaseRecord = {
+    readonly phase: string;
+    readonly proposals: ProposalRecord[];
+}
+
+/**
+ * @brief A turn of a game: the proposals of each phase and the actors at the end of the turn.
+ */
+type TurnRecord = {
+    readonly turn: number;
+    readonly phases: PhaseRecord[];
+    readonly actors: ActorSnapshot[];
+}
+
+/**
+ * @brief A recorded game.
+ *
+ * @property {number} seed - The seed of the recorded game.
+ * @property {Position} size - The size of the world.
+ * @property {ActorSnapshot[]} actors - The actors at the beginning of the game.
+ * @property {TurnRecord[]} turns - The recorded turns.
+ */
+type Replay = {
+    readonly seed: number;
+    readonly size: Position;
+    readonly actors: ActorSnapshot[];
+    readonly turns: TurnRecord[];
+}
+
+/**
+ * @brief Returns the state of an actor without its actions.
+ *
+ * @param {Actor} anActor - The actor to take a snapshot of.
+ * @returns {ActorSnapshot} The snapshot of the actor.
+ */
+function snapshotActor(anActor: Actor): ActorSnapshot {
+    return {
+        id: anActor.id,
+        position: anActor.position,
+        type: anActor.type,
+        name: anActor.name,
+        health: anActor.health,
+        maxHealth: anActor.maxHealth,
+        ...(anActor.effects ? { effects: listToArray(anActor.effects) } : {})
+    };
+}
+
+/**
+ * @brief Rebuilds an actor from a snapshot. The actor has no actions: it can be displayed, not played.
+ *
+ * @param {ActorSnapshot} snapshot - The snapshot to rebuild the actor from.
+ * @returns {Actor} The rebuilt actor.
+ */
+const restoreActor = (snapshot: ActorSnapshot): Actor =>
+    ({ ...snapshot, effects: snapshot.effects ? arrayToList(snapshot.effects) : undefined, actions: {} });
+
+/**
+ * @brief Converts a proposal to a value that can be written in a replay file.
+ *
+ * Lists become arrays, actors become snapshots and missing proposals become null.
+ *
+ * @param {unknown} proposal - The proposal to convert.
+ * @returns {unknown} The converted proposal.
+ */
+function recordProposal(proposal: unknown): unknown {
+    if (proposal === undefined || proposal === null)
+        return null;
+    if (typeof proposal !== "object")
+        return proposal;
+    if ("car" in proposal && "cdr" in proposal)
+        return listToArray(<List<unknown>>proposal).map(recordProposal);
+    if ("actions" in proposal)
+        return snapshotActor(<Actor>proposal);
+    return proposal;
+}
+
+/**
+ * @brief Records the proposals made by the actors during a phase.
+ *
+ * @param {Phase} aPhase - The phase.
+ * @param {ActorStore} actors - The actors that made the proposals.
+ * @param {List<unknown>} proposals - The proposals, in the same order as the actors.
+ * @returns {PhaseRecord} The record of the phase.
+ */
+function recordPhase(aPhase: Phase, actors: ActorStore, proposals: List<unknown>): PhaseRecord {
+    const proposalsArray = listToArray(proposals);
+    return {
+        phase: aPhase.funcName,
+        proposals: listToArray(storeToList(actors))
+            .map((anActor, i) => ({ id: anActor.id, proposal: recordProposal(proposalsArray[i]) }))
+            .filter((record) => record.proposal !== null)
+    };
+}
+
+/**
+ * @brief Creates an empty replay starting from the given game state.
+ *
+ * @param {World} aWorld - The world at the beginning of the game.
+ * @param {ActorStore} actors - The actors at the beginning of the game.
+ * @returns {Replay} A replay with no turn.
+ */
+function createReplay(aWorld: World, actors: ActorStore): Replay {
+    return {
+        seed: aWorld.rng.seed,
+        size: aWorld.size,
+        actors: listToArray(listMap(snapshotActor, storeToList(actors))),
+        turns: []
+    };
+}
+
+/**
+ * @brief Adds a turn to a replay.
+ *
+ * @param {Replay} replay - The replay to add the turn to.
+ * @param {PhaseRecord[]} phases - The records of the phases of the turn.
+ * @param {ActorStore} actors - The actors at the end of the turn.
+ * @returns {Replay} A new replay with the turn added.
+ */
+function addTurn(replay: Replay, phases: PhaseRecord[], actors: ActorStore): Replay {
+    return {
+        ...replay,
+        turns: [...replay.turns, { turn: replay.turns.length + 1, phases: phases, actors: listToArray(listMap(snapshotActor, storeToList(actors))) }]
+    };
+}
+
+/**
+ * @brief Converts a replay to the content of a replay file.
+ *
+ * @param {Replay} replay - The replay to convert.
+ * @returns {string} The JSON content of the replay file.
+ */
+const replayToJson = (replay: Replay): string => JSON.stringify(replay);
+
+/**
+ * @brief Reads a replay from the content of a replay file.
+ *
+ * @param {string} json - The JSON content of the replay file.
+ * @returns {Replay} The replay.
+ * @throws An error if the content is not a replay.
+ */
+function parseReplay(json: string): Replay {
+    const replay = JSON.parse(json);
+    if (typeof replay !== "object" || replay === null || !replay.size || !Array.isArray(replay.actors) || !Array.isArray(replay.turns))
+        throw new Error("Invalid replay file");
+    return <Replay>replay;
+}
+
+/**
+ * @brief Returns the actors of every state of a replay, from the beginning of the game to the last turn.
+ *
+ * @param {Replay} replay - The replay.
+ * @returns {ActorStore[]} The actors of each state of the game.
+ */
+function replayStates(replay: Replay): ActorStore[] {
+    return [replay.actors, ...replay.turns.map((aTurn) => aTurn.actors)].map((snapshots) => createActorStore(arrayToList(snapshots.map(restoreActor))));
+}
+
+/**
+ * @brief Plays a replay back, printing every turn without running the actions of the actors.
+ *
+ * @param {Replay} replay - The replay to play.
+ * @param {number} ms - The number of milliseconds to wait between two turns.
+ */
+async function playReplay(replay: Replay, ms: number): Promise<void> {
+    const world = buildWorld(replay.size, { seed: replay.seed });
+    for (const [turn, actors] of replayStates(replay).entries()) {
+        if (turn > 0)
+            await sleep(ms);
+        console.log(`Turn ${turn}`);
+        printGame(world, actors);
+        printHealth(actors);
+    }
+}
+
+export {
+    ActorSnapshot,
+    ProposalRecord,
+    PhaseRecord,
+    TurnRecord,
+    Replay,
+    snapshotActor,
+    restoreActor,
+    recordProposal,
+    recordPhase,
+    createReplay,
+    addTurn,
+    replayToJson,
+    parseReplay,
+    replayStates,
+    playReplay
+};
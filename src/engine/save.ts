@@ -0,0 +1,180 @@
+/**
+ * @file save.ts
+ * @brief This file contains the saving of a running game and its loading, so that a game can be paused to disk.
+ */
+
+import { World, buildWorld } from "../world/world";
+import { ScheduledSpawn } from "../world/waves";
+import { TerrainCell } from "../world/terrain";
+import { Connectivity } from "../common/graph";
+import { Actor, getNextId, resetIds, setLifePoint } from "../actors/actors";
+import { StatusEffect } from "../actors/effects";
+import { TargetingPolicy } from "../actors/targeting";
+import { Flight } from "../actors/projectiles";
+import { createActorFromTemplate, getTemplateName } from "../actors/templateRegistry";
+import { ActorStore, createActorStore, storeToList } from "../actors/actorStore";
+import { arrayToList, listToArray } from "../common/list";
+import { Position } from "../common/position";
+
+/**
+ * @brief An actor as stored in a save: its actions are rebuilt from its template on load.
+ */
+type SavedActor = {
+    readonly id: number;
+    readonly template: string;
+    readonly position: Position;
+    readonly health: number;
+    readonly effects?: StatusEffect[];
+    readonly targeting?: TargetingPolicy;
+    readonly flight?: Flight;
+}
+
+/**
+ * @brief A saved game.
+ *
+ * @property {number} version - The version of the save format.
+ * @property {Position} size - The size of the world.
+ * @property {number} rng - The state of the random number generator of the world.
+ * @property {number} turn - The current turn of the game.
+ * @property {ScheduledSpawn[]} spawns - The enemies of the waves still waiting to be spawned.
+ * @property {number} balance - The money of the player.
+ * @property {TerrainCell[]} terrain - The cells of the world that are not floor.
+ * @property {Connectivity} connectivity - The number of neighbours of a cell.
+ * @property {string[]} phases - The names of the phases of a turn in the order they are played, empty for the default order.
+ * @property {SavedActor[]} actors - The actors of the game.
+ * @property {number} nextId - The identifier of the next created actor, greater than the identifiers of the actors removed before the save.
+ */
+type SavedGame = {
+    readonly version: number;
+    readonly size: Position;
+    readonly rng: number;
+    readonly turn: number;
+    readonly spawns: ScheduledSpawn[];
+    readonly balance: number;
+    readonly terrain: TerrainCell[];
+    readonly connectivity: Connectivity;
+    readonly phases: string[];
+    readonly actors: SavedActor[];
+    readonly nextId: number;
+}
+
+/**
+ * @brief The version of the save format written by saveGame.
+ */
+const SAVE_VERSION = 8;
+
+/**
+ * @brief Returns the saved state of an actor.
+ *
+ * @param {Actor} anActor - The actor to save.
+ * @returns {SavedActor} The saved actor.
+ * @throws An error if the actor comes from no registered template.
+ */
+function saveActor(anActor: Actor): SavedActor {
+    const template = getTemplateName(anActor);
+    if (!template)
+        throw new Error(`Actor ${anActor.id} (${anActor.name}) comes from no registered template`);
+    return {
+        id: anActor.id,
+        template: template,
+        position: anActor.position,
+        health: anActor.health,
+        ...(anActor.effects ? { effects: listToArray(anActor.effects) } : {}),
+        ...(anActor.targetingOverride ? { targeting: anActor.targetingOverride } : {}),
+        ...(anActor.flight ? { flight: anActor.flight } : {})
+    };
+}
+
+/**
+ * @brief Rebuilds an actor from its saved state and its template.
+ *
+ * An actor saved without targeting policy takes the policy of its template, the saved policy being the one set by the player.
+ *
+ * @param {SavedActor} saved - The saved actor.
+ * @returns {Actor} The actor, with the actions of its template.
+ * @throws An error if the template is unknown.
+ */
+const loadActor = (saved: SavedActor): Actor =>
+    setLifePoint({
+        ...createActorFromTemplate(saved.template, saved.position),
+        id: saved.id,
+        effects: saved.effects ? arrayToList(saved.effects) : undefined,
+        ...(saved.targeting ? { targetingOverride: saved.targeting } : {}),
+        ...(saved.flight ? { flight: saved.flight } : {})
+    }, saved.health);
+
+/**
+ * @brief Saves a running game.
+ *
+ * @param {World} aWorld - The world of the game.
+ * @param {ActorStore} actors - The actors of the game.
+ * @returns {SavedGame} The saved game.
+ */
+function saveGame(aWorld: World, actors: ActorStore): SavedGame {
+    return {
+        version: SAVE_VERSION,
+        size: aWorld.size,
+        rng: aWorld.rng.seed,
+        turn: aWorld.turn,
+        spawns: listToArray(aWorld.spawns),
+        balance: aWorld.balance,
+        terrain: listToArray(aWorld.terrain),
+        connectivity: aWorld.graph.connectivity ?? 4,
+        phases: listToArray(aWorld.phases),
+        actors: listToArray(storeToList(actors)).map(saveActor),
+        nextId: getNextId()
+    };
+}
+
+/**
+ * @brief Loads a saved game.
+ *
+ * The identifiers of the actors created after the load start from the saved next identifier, as if the game had never been paused.
+ *
+ * @param {SavedGame} saved - The saved game.
+ * @returns {[World, ActorStore]} The world and the store of the actors of the game.
+ * @throws An error if an actor comes from an unknown template.
+ */
+function loadGame(saved: SavedGame): [World, ActorStore] {
+    const actors = createActorStore(arrayToList(saved.actors.map(loadActor)));
+    resetIds(saved.nextId);
+    return [{ ...buildWorld(saved.size, { seed: saved.rng, terrain: saved.terrain, connectivity: saved.connectivity, phases: saved.phases }), turn: saved.turn, spawns: arrayToList(saved.spawns), balance: saved.balance }, actors];
+}
+
+/**
+ * @brief Converts a saved game to the content of a save file.
+ *
+ * @param {SavedGame} saved - The saved game.
+ * @returns {string} The JSON content of the save file.
+ */
+const savedGameToJson = (saved: SavedGame): string => JSON.stringify(saved);
+
+/**
+ * @brief Reads a saved game from the content of a save file.
+ *
+ * @param {string} json - The JSON content of the save file.
+ * @returns {SavedGame} The saved game.
+ * @throws An error if the content is not a save of a supported version.
+ */
+function parseSavedGame(json: string): SavedGame {
+    const saved = JSON.parse(json);
+    if (typeof saved !== "object" || saved === null || !saved.size || typeof saved.rng !== "number" || !Array.isArray(saved.actors))
+        throw new Error("Invalid save file");
+    if (saved.version !== SAVE_VERSION)
+        throw new Error(`Unsupported save version ${saved.version}`);
+    if (typeof saved.turn !== "number" || !Array.isArray(saved.spawns) || typeof saved.balance !== "number" || !Array.isArray(saved.terrain) || (saved.connectivity !== 4 && saved.connectivity !== 8)
+        || !Array.isArray(saved.phases) || !saved.phases.every((phase: unknown) => typeof phase === "string") || !Number.isInteger(saved.nextId))
+        throw new Error("Invalid save file");
+    return <SavedGame>saved;
+}
+
+export {
+    SavedActor,
+    SavedGame,
+    saveActor,
+    loadActor,
+    saveGame,
+    loadGame,
+    savedGameToJson,
+    parseSavedGame
+};
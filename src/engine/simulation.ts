@@ -0,0 +1,149 @@
+/**
+ * @file simulation.ts
+ * @brief This file contains the headless simulation of many games, used to evaluate the balance of the templates.
+ */
+
+import { Level, loadLevel } from "../world/level";
+import { Actor } from "../actors/actors";
+import { storeToList } from "../actors/actorStore";
+import { List, listFoldR } from "../common/list";
+import { Winner, gameIsOver, playTurn } from "./engine";
+import { computePhases } from "./phases";
+import { createEventBus } from "./events";
+import { getEvents } from "../world/events";
+
+/**
+ * @brief The result of a simulated game.
+ *
+ * @property {Winner} winner - The winner of the game, NONE if the game reached the maximum number of turns.
+ * @property {number} turns - The number of turns played.
+ * @property {Record<string, number>} appeared - The number of actors of each template that appeared during the game.
+ * @property {Record<string, number>} survived - The number of actors of each template alive at the end of the game.
+ */
+type GameResult = {
+    readonly winner: Winner;
+    readonly turns: number;
+    readonly appeared: Record<string, number>;
+    readonly survived: Record<string, number>;
+}
+
+/**
+ * @brief The survival of the actors of a template over many games.
+ */
+type SurvivalRate = {
+    readonly appeared: number;
+    readonly survived: number;
+    readonly rate: number;
+}
+
+/**
+ * @brief The report of many simulated games.
+ */
+type SimulationReport = {
+    readonly games: number;
+    readonly wins: Record<Winner, number>;
+    readonly winRatio: number;          /** The ratio of games won by the towers. */
+    readonly averageTurns: number;
+    readonly survival: Record<string, SurvivalRate>;
+}
+
+/**
+ * @brief Counts the actors of each template (by name) of a list.
+ *
+ * @param actors The actors to count.
+ * @return The number of actors of each template.
+ */
+const countByTemplate = (actors: List<Actor>): Record<string, number> =>
+    listFoldR((acc, anActor) => ({ ...acc, [anActor.name]: (acc[anActor.name] ?? 0) + 1 }), <Record<string, number>>{}, actors);
+
+/**
+ * @brief Plays a whole game without delay nor rendering.
+ *
+ * @param level The level of the game.
+ * @param seed The seed of the game.
+ * @param maxTurns The number of turns after which the game is stopped.
+ * @return The result of the game.
+ */
+function simulateGame(level: Level, seed: number, maxTurns: number): GameResult {
+    let [world, actors] = loadLevel(level, { seed: seed });
+    const phases = computePhases(world, actors);
+    let appeared = countByTemplate(storeToList(actors));
+    let turns = 0;
+
+    const bus = createEventBus();
+    bus.subscribe("ActorSpawned", (event) => {
+        appeared = { ...appeared, [event.name]: (appeared[event.name] ?? 0) + 1 };
+    });
+
+    while (gameIsOver(world, actors) === "NONE" && turns < maxTurns) {
+        [world, actors] = playTurn(world, actors, phases);
+        bus.publish(getEvents(world));
+        turns++;
+    }
+
+    return {
+        winner: gameIsOver(world, actors),
+        turns: turns,
+        appeared: appeared,
+        survived: countByTemplate(storeToList(actors))
+    };
+}
+
+/**
+ * @brief Plays many games and sums up their results.
+ *
+ * The game i is played with the seed `seed + i`, so a simulation can be run again with the same results.
+ *
+ * @param level The level of the games.
+ * @param count The number of games to play.
+ * @param seed The seed of the first game.
+ * @param maxTurns The number of turns after which a game is stopped.
+ * @return The report of the simulation.
+ */
+function simulateGames(level: Level, count: number, seed: number, maxTurns: number): SimulationReport {
+    const results = Array.from({ length: count }, (_, i) => simulateGame(level, seed + i, maxTurns));
+    const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+    const names = [...new Set(results.flatMap((result) => Object.keys(result.appeared)))].sort();
+    const survival = names.reduce((acc: Record<string, SurvivalRate>, name) => {
+        const appeared = sum(results.map((result) => result.appeared[name] ?? 0));
+        const survived = sum(results.map((result) => result.survived[name] ?? 0));
+        return { ...acc, [name]: { appeared: appeared, survived: survived, rate: appeared === 0 ? 0 : survived / appeared } };
+    }, {});
+    const wins = (winner: Winner) => results.filter((result) => result.winner === winner).length;
+
+    return {
+        games: count,
+        wins: { TOWER: wins("TOWER"), ENEMY: wins("ENEMY"), NONE: wins("NONE") },
+        winRatio: count === 0 ? 0 : wins("TOWER") / count,
+        averageTurns: count === 0 ? 0 : sum(results.map((result) => result.turns)) / count,
+        survival: survival
+    };
+}
+
+/**
+ * @brief Formats a simulation report for the console.
+ *
+ * @param report The report to format.
+ * @return The text of the report.
+ */
+function formatReport(report: SimulationReport): string {
+    const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+    return [
+        `Games: ${report.games}`,
+        `Tower wins: ${report.wins.TOWER} (${percent(report.winRatio)})`,
+        `Enemy wins: ${report.wins.ENEMY}`,
+        `Unfinished: ${report.wins.NONE}`,
+        `Average length: ${report.averageTurns.toFixed(1)} turns`,
+        "Survival rates:",
+        ...Object.entries(report.survival).map(([name, rate]) => `  ${name}: ${percent(rate.rate)} (${rate.survived}/${rate.appeared})`)
+    ].join("\n");
+}
+
+export {
+    GameResult,
+    SurvivalRate,
+    SimulationReport,
+    simulateGame,
+    simulateGames,
+    formatReport
+};
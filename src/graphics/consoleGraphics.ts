@@ -3,13 +3,19 @@
  * @brief This file contains functions for displaying the game world in the console using ASCII characters.
 */
 
-import { Actor, getActorsAtPos } from "../actors/actors";
+import { Actor } from "../actors/actors";
+import { ActorStore, storeToList } from "../actors/actorStore";
+import { getTemplateName } from "../actors/templateRegistry";
+import { effectsToString } from "../actors/effects";
 import { List, cons, emptyList, head, isEmpty, listFoldR, tail } from "../common/list";
 import { Vertex } from "../common/vertex";
 import { World, getDimensionWorld } from "../world/world";
+import { getBalance } from "../world/economy";
+import { getActorsInCell, getSpatialHash } from "../world/spatialHash";
 import { clearGrid, createNode } from "./htmlHandle";
 import { Position, createPosition, getX, positionEquals } from "../common/position";
 import { Winner, gameIsOver } from "../engine/engine";
+import { GameEvent } from "../world/events";
 
 /**
  * @brief Returns the index of a given position in a 1D array.
@@ -19,6 +25,16 @@ import { Winner, gameIsOver } from "../engine/engine";
  */
 const posToIndexCur = (worldSize: Position) => (x: number, y: number) => y * (getX(worldSize) + 1) + x;
 
+/**
+ * @brief Returns the position in the world of a cell of the board, the first row of the board being the greatest y.
+ *
+ * @param size The size of the world.
+ * @param x The column of the cell on the board.
+ * @param y The row of the cell on the board.
+ * @return The position of the cell in the world.
+ */
+const boardToWorldPosition = (size: Position, x: number, y: number): Position => createPosition(x, size.y - y);
+
 /**
  * @brief Returns the position following the given position.
  *
@@ -70,6 +86,31 @@ function buildWorldList(aWorld: World): List<List<Vertex>> {
     return listFoldR((acc, elt) => setElementAtPosInList(acc, elt), <List<List<Vertex>>>emptyList(), aWorld.graph.vertexes);
 }
 
+/**
+ * @brief The character associated with each template in the console, by template name.
+ */
+const actorLegend: Readonly<Record<string, string>> = {
+    remyWithSpoon: "0",
+    hungryRemyWithSpoon: "1",
+    remyThrowingCheese: "2",
+    gusteauWithPan: "3",
+    angryGusteauWithPan: "4",
+    veryAngryGusteauWithPan: "5",
+    skinnerWithSoup: "S",
+    coletteWithKnives: "C",
+    laloJugglingOnions: "J",
+    linguini: "6",
+    marmite: "7",
+    worktop: "8",
+    hole: "H",
+    thrownCheese: "c"
+};
+
+/**
+ * @brief The character of an empty cell in the console.
+ */
+const emptyCellChar = "*";
+
 /**
  * @brief Returns the character associated with the given actor type.
  *
@@ -77,52 +118,38 @@ function buildWorldList(aWorld: World): List<List<Vertex>> {
  * @return The character associated with the given actor type.
  */
 function getActorChar(anActor: Actor): string {
-    switch (anActor.name) {
-        case "Remy with a Spoon":
-            return "0";
-        case "Hungry Remy with a Spoon":
-            return "1";
-        case "Remy Throwing Cheese":
-            return "2";
-        case "Gusteau with a Pan":
-            return "3";
-        case "Angry Gusteau with a Pan":
-            return "4";
-        case "Very Angry Gusteau with a Pan":
-            return "5";
-        case "Linguini":
-            return "6";
-        case "Marmite":
-            return "7";
-        case "Worktop":
-            return "8";
-        case "Hole":
-            return "H";
-        default:
-            break;
-    }
-    return " ";
+    return actorLegend[getTemplateName(anActor) ?? ""] ?? " ";
 }
 
 /**
  * @brief Returns a string representation of the world list with actor characters added.
  *
  * @param list The list of lists of vertices representing the world.
- * @param actors The list of actors to add to the world list.
+ * @param actors The store of the actors to add to the world list.
  * @param isHtml A boolean indicating if the output is in HTML format.
  * @return A string representation of the world list with actor characters added.
  */
-function addActorToWorldList(list: List<List<Vertex>>, actors: List<Actor>, isHtml: boolean): string {
+function addActorToWorldList(list: List<List<Vertex>>, actors: ActorStore, isHtml: boolean): string {
+    const hash = getSpatialHash(storeToList(actors));
     return listFoldR(function (acc, elt) {
         return acc + listFoldR(function (acc2, elt2) {
-            const actorsAtPos = getActorsAtPos(actors, elt2.pos);
+            const actorsAtPos = getActorsInCell(hash, elt2.pos);
             if (isEmpty(actorsAtPos))
-                return acc2 + (isHtml ? " " : "*");
+                return acc2 + (isHtml ? " " : emptyCellChar);
             return acc2 + getActorChar(head(actorsAtPos));
         }, "", elt) + (isHtml ? "" : "\n");
     }, "", list);
 }
 
+/**
+ * @brief Returns the board of the game as printed in the console, the top line being the greatest y.
+ *
+ * @param aWorld The world state.
+ * @param actors The store of the actors to draw on the board.
+ * @return The board, one line per row of the world.
+ */
+const getBoardString = (aWorld: World, actors: ActorStore): string => addActorToWorldList(buildWorldList(aWorld), actors, false);
+
 /**
  * @brief Builds an HTML grid element representing the game state.
  *
@@ -134,7 +161,7 @@ function addActorToWorldList(list: List<List<Vertex>>, actors: List<Actor>, isHt
  * @return The HTML grid element.
  */
 function buildGridElement(gameString: string, pos: Position, size: Position, grid: HTMLDivElement, winner: Winner): HTMLDivElement {
-    grid.appendChild(createNode(gameString, pos.x, pos.y, posToIndexCur(size), winner));
+    grid.appendChild(createNode(gameString, pos.x, pos.y, posToIndexCur(size), winner, boardToWorldPosition(size, pos.x, pos.y)));
     if (positionEquals(pos, size))
         return grid;
     console.log(grid);
@@ -145,9 +172,9 @@ function buildGridElement(gameString: string, pos: Position, size: Position, gri
  * @brief Prints the game state to the console or an HTML grid element.
  *
  * @param aWorld The world state.
- * @param actors The list of actors to add to the world list.
+ * @param actors The store of the actors to add to the world list.
  */
-function printGame(aWorld: World, actors: List<Actor>): void {
+function printGame(aWorld: World, actors: ActorStore): void {
     let gridContainer = undefined;
     try {
         gridContainer = document.getElementById("grid-container");
@@ -156,7 +183,7 @@ function printGame(aWorld: World, actors: List<Actor>): void {
     }
 
     if (gridContainer === undefined || gridContainer === null)
-        console.log(addActorToWorldList(buildWorldList(aWorld), actors, false));
+        console.log(getBoardString(aWorld, actors));
     else {
         clearGrid();
         const worldSize = getDimensionWorld(aWorld);
@@ -170,18 +197,18 @@ function printGame(aWorld: World, actors: List<Actor>): void {
 }
 
 /**
- * @brief Prints the health of all actors in a list.
+ * @brief Prints the health of all actors of a store.
  *
- * @param actors The list of actors to print the health of.
+ * @param actors The store of the actors to print the health of.
  */
-function printHealth(actors: List<Actor>): void {
+function printHealth(actors: ActorStore): void {
     let logs = undefined;
     try {
         logs = document.getElementById("logs");
     } catch {
         console.log("Log in console");
     }
-    const logsText = listFoldR((acc, actor) => acc + `Actor ${actor.id} health : ${actor.health}` + "\n", "", actors);
+    const logsText = listFoldR((acc, actor) => acc + `Actor ${actor.id} health : ${actor.health}` + (effectsToString(actor) ? ` (${effectsToString(actor)})` : "") + "\n", "", storeToList(actors));
 
     if (logs === undefined || logs === null) {
         console.log(logsText);
@@ -190,8 +217,87 @@ function printHealth(actors: List<Actor>): void {
     }
 }
 
+/**
+ * @brief Describes an event of the game in one line.
+ *
+ * @param {GameEvent} event - The event to describe.
+ * @return {string} The description of the event.
+ */
+function formatEvent(event: GameEvent): string {
+    const where = (pos: Position) => `(${pos.x}, ${pos.y})`;
+    switch (event.kind) {
+        case "ActorDamaged":
+            return `Turn ${event.turn}: actor ${event.source} deals ${event.damage} damage to actor ${event.target} (health ${Math.max(event.health, 0)})`;
+        case "ActorKilled":
+            return `Turn ${event.turn}: actor ${event.source} kills actor ${event.target} (${event.name})`;
+        case "ActorSpawned":
+            return `Turn ${event.turn}: actor ${event.source} spawns actor ${event.target} (${event.name}) at ${where(event.position)}`;
+        case "ActorHealed":
+            return `Turn ${event.turn}: actor ${event.source} heals actor ${event.target} by ${event.heal} (health ${event.health})`;
+        case "ActorMoved":
+            return `Turn ${event.turn}: actor ${event.source} moves from ${where(event.from)} to ${where(event.to)}`;
+        case "ProjectileLaunched":
+            return `Turn ${event.turn}: actor ${event.source} throws actor ${event.projectile} (${event.name}) at actor ${event.target} on ${where(event.impact)}`;
+        case "ProjectileMissed":
+            return `Turn ${event.turn}: actor ${event.target} dodges actor ${event.projectile} of actor ${event.source} on ${where(event.impact)}`;
+    }
+}
+
+/**
+ * @brief Prints an event of the game, to subscribe to the event bus.
+ *
+ * Depending on the execution environment, the event is added on top of the "logs" element of the page or printed in the console.
+ *
+ * @param {GameEvent} event - The event to print.
+ */
+function printEvent(event: GameEvent): void {
+    let logs = undefined;
+    try {
+        logs = document.getElementById("logs");
+    } catch {
+        logs = undefined;
+    }
+
+    if (logs === undefined || logs === null) {
+        console.log(formatEvent(event));
+    } else {
+        logs.innerHTML = formatEvent(event) + "\n" + logs.innerHTML;
+    }
+}
+
+/**
+ * @brief Prints the balance of the player.
+ *
+ * Depending on the execution environment, the balance is written in the "balance" element of the page or in the console.
+ *
+ * @param {World} aWorld - The world holding the balance.
+ */
+function printBalance(aWorld: World): void {
+    let balance = undefined;
+    try {
+        balance = document.getElementById("balance");
+    } catch {
+        console.log("Balance in console");
+    }
+    const balanceText = `Balance: ${getBalance(aWorld)}`;
+
+    if (balance === undefined || balance === null) {
+        console.log(balanceText);
+    } else {
+        balance.innerHTML = balanceText;
+    }
+}
+
 export {
+    actorLegend,
+    emptyCellChar,
+    getActorChar,
+    getBoardString,
+    boardToWorldPosition,
     printGame,
     printHealth,
+    formatEvent,
+    printEvent,
+    printBalance,
     buildWorldList
 };
\ No newline at end of file
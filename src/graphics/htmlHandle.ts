@@ -4,6 +4,7 @@
 */
 
 import { Winner } from "../engine/engine";
+import { Position } from "../common/position";
 
 
 /**
@@ -17,13 +18,14 @@ function clearGrid() {
  * @brief Creates an HTML grid node based on the contents of a given cell.
  *
  * @param gridList A string representation of the game state.
- * @param x The x-coordinate of the cell.
- * @param y The y-coordinate of the cell.
+ * @param x The x-coordinate of the cell in the grid.
+ * @param y The y-coordinate of the cell in the grid, 0 for the first row.
  * @param posToIndex A function to convert 2D coordinates to a 1D index.
  * @param winner The winner of the game, if any.
+ * @param worldPos The position of the cell in the world, kept in the node for the clicks.
  * @return The HTML grid node.
 */
-function createNode(gridList: string, x: number, y: number, posToIndex: (x: number, y: number) => number, winner: Winner) {
+function createNode(gridList: string, x: number, y: number, posToIndex: (x: number, y: number) => number, winner: Winner, worldPos: Position) {
     const node = document.createElement("div");
     const enemyString = winner === "ENEMY" ? "goal_win" : "remy";
     switch (gridList[posToIndex(x, y)]) {
@@ -45,6 +47,15 @@ function createNode(gridList: string, x: number, y: number, posToIndex: (x: numb
         case "5":
             node.classList.add("VAGP");
             break;
+        case "S":
+            node.classList.add("SS");
+            break;
+        case "C":
+            node.classList.add("CK");
+            break;
+        case "J":
+            node.classList.add("LJO");
+            break;
         case "6":
             node.classList.add("L");
             break;
@@ -57,16 +68,103 @@ function createNode(gridList: string, x: number, y: number, posToIndex: (x: numb
         case "H":
             node.classList.add("H");
             break;
+        case "c":
+            node.classList.add("TC");
+            break;
 
         default:
             break;
     }
 
     node.classList.add("box");
+    node.dataset.x = `${worldPos.x}`;
+    node.dataset.y = `${worldPos.y}`;
     return node;
 }
 
+/**
+ * @brief Fills the tower selector of the page with the towers the player can buy, then with the orders on the clicked tower.
+ *
+ * @param towers The template name and the cost of each tower.
+ * @param orders The value and the label of each order on the clicked tower.
+ * @return True if the page has a tower selector.
+*/
+function fillTowerSelect(towers: [string, number][], orders: [string, string][]): boolean {
+    const select = document.getElementById("tower-select");
+    if (!select)
+        return false;
+    towers.forEach(([templateName, cost]) => {
+        const option = document.createElement("option");
+        option.value = templateName;
+        option.textContent = `${templateName} (${cost})`;
+        select.appendChild(option);
+    });
+    orders.forEach(([value, label]) => {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = label;
+        select.appendChild(option);
+    });
+    return true;
+}
+
+/**
+ * @brief Fills the policy selector of the page with the targeting policies a tower can be given.
+ *
+ * @param policies The targeting policies.
+ * @return True if the page has a policy selector.
+*/
+function fillPolicySelect(policies: readonly string[]): boolean {
+    const select = document.getElementById("policy-select");
+    if (!select)
+        return false;
+    policies.forEach((policy) => {
+        const option = document.createElement("option");
+        option.value = policy;
+        option.textContent = policy;
+        select.appendChild(option);
+    });
+    return true;
+}
+
+/**
+ * @brief Calls a function with the selected option, a tower or an order on a tower, the position in the world of each cell of the grid clicked by the player and the selected policy.
+ *
+ * @param handler The function to call.
+*/
+function onCellClick(handler: (templateName: string, x: number, y: number, policy?: string) => void) {
+    document.getElementById("grid-container")?.addEventListener("click", (event) => {
+        const cell = (<HTMLElement>event.target).closest<HTMLElement>(".box");
+        const select = <HTMLSelectElement | null>document.getElementById("tower-select");
+        const policy = <HTMLSelectElement | null>document.getElementById("policy-select");
+        if (cell && select)
+            handler(select.value, Number(cell.dataset.x), Number(cell.dataset.y), policy?.value);
+    });
+}
+
+/**
+ * @brief Shows a message about the placement of towers, in the page or in the console.
+ *
+ * @param message The message.
+*/
+function showPlacementMessage(message: string) {
+    let placement = undefined;
+    try {
+        placement = document.getElementById("placement");
+    } catch {
+        placement = undefined;
+    }
+    if (placement === undefined || placement === null)
+        console.log(message);
+    else
+        placement.textContent = message;
+}
+
 export {
     clearGrid,
-    createNode
+    createNode,
+    fillTowerSelect,
+    fillPolicySelect,
+    onCellClick,
+    showPlacementMessage
 };
\ No newline at end of file
@@ -1,18 +1,61 @@
-import { buildWorld } from "./world/world";
-import { listFoldR, listMap } from "./common/list";
-import { initializeActors } from "./actors/actors";
+import { loadLevel } from "./world/level";
+import { Actor } from "./actors/actors";
+import { kitchen } from "./world/kitchen";
 import { computePhases } from "./engine/phases";
-import { gameIsOver } from "./engine/engine";
+import { gameIsOver, playTurn, sleep } from "./engine/engine";
+import { PlayerOrder, applyPlacements, createPlayerOrder, targetKeyword, upgradeKeyword } from "./engine/placement";
+import { createEventBus } from "./engine/events";
+import { getEvents } from "./world/events";
+import { printBalance, printEvent, printGame } from "./graphics/consoleGraphics";
+import { fillPolicySelect, fillTowerSelect, onCellClick, showPlacementMessage } from "./graphics/htmlHandle";
+import { getTemplate, getTemplateNames } from "./actors/templateRegistry";
+import { targetingPolicies } from "./actors/targeting";
+import { getCost } from "./world/economy";
 import { createPosition } from "./common/position";
-import { printGame, printHealth } from "./graphics/consoleGraphics";
 
 /**
- * @brief A function that waits for a given number of milliseconds before resolving.
+ * @brief Reads the seed of the game from the page URL (?seed=) or the SEED environment variable.
  *
- * @param {number} ms The number of milliseconds to wait.
- * @return {Promise} A promise that resolves after the given number of milliseconds.
+ * @return {number} The requested seed, or a new one based on the current time.
  */
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+function readSeed(): number {
+    let seed = undefined;
+    try {
+        seed = new URLSearchParams(window.location.search).get("seed");
+    } catch (error) {
+        seed = process.env.SEED;
+    }
+    return seed ? Number(seed) | 0 : Date.now() | 0;
+}
+
+/**
+ * @brief Lets the player place, upgrade and retarget towers by clicking the grid of the page.
+ *
+ * The orders are queued and applied before the next turn. Nothing happens when the game runs in the console.
+ *
+ * @param {PlayerOrder[]} orders - The queue of the orders of the player.
+ */
+function listenPlacements(orders: PlayerOrder[]): void {
+    const towers = getTemplateNames()
+        .filter((templateName) => getTemplate(templateName)?.type === "TOWER")
+        .map((templateName): [string, number] => [templateName, getCost(<Actor>getTemplate(templateName))]);
+    try {
+        if (!fillTowerSelect(towers, [[upgradeKeyword, "upgrade the clicked tower"], [targetKeyword, "give the selected policy to the clicked tower"]]) || !fillPolicySelect(targetingPolicies))
+            return;
+    } catch (error) {
+        return;
+    }
+    onCellClick((templateName, x, y, policy) => {
+        const order = createPlayerOrder(templateName, createPosition(x, y), policy);
+        orders.push(order);
+        if ("upgrade" in order)
+            showPlacementMessage(`The tower at (${x}, ${y}) will be upgraded before the next turn`);
+        else if ("policy" in order)
+            showPlacementMessage(`The tower at (${x}, ${y}) will target with ${order.policy} before the next turn`);
+        else
+            showPlacementMessage(`${templateName} will be placed at (${x}, ${y}) before the next turn`);
+    });
+}
 
 /**
  * @brief The main game loop.
@@ -20,31 +63,41 @@ const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
  * The main function that runs the game loop, updating the game state and actors based on the computed phases until the game is over.
  */
 async function main() {
-    // Build the world and initialize the actors
-    let world = buildWorld(createPosition(10, 10));
-    let actors = initializeActors(world);
+    // Pick the seed of the game, print it so that the game can be played again
+    const seed = readSeed();
+    console.log(`Seed: ${seed}`);
+
+    // Build the world and initialize the actors from the level
+    let [world, actors] = loadLevel(kitchen, { seed: seed });
     const phases = computePhases(world, actors);
+    const orders: PlayerOrder[] = [];
+    listenPlacements(orders);
+
+    // Log the events of the game as they are published
+    const bus = createEventBus();
+    bus.subscribe(printEvent);
 
     // Print the initial game state
     printGame(world, actors);
+    printBalance(world);
 
     // Loop until the game is over
     while (gameIsOver(world, actors) === "NONE") {
         // Wait for a second before processing the next step
         await sleep(300);
 
-        // Process the current phase for each actor
-        [world, actors] = listFoldR(([aWorld, actors], aPhase) => {
-            // Generate proposals for each actor based on the current phase
-            const proposals = listMap((anActor) => anActor.actions[aPhase.funcName]?.(anActor, aWorld, actors), actors);
+        // Place, upgrade and retarget the towers asked by the player since the previous turn
+        let errors;
+        [world, actors, errors] = applyPlacements(world, actors, orders.splice(0));
+        errors.forEach((error) => showPlacementMessage(error));
 
-            // Resolve the proposals using the phase's resolver function
-            return aPhase.resolver(aWorld, actors, proposals);
-        }, [world, actors], phases);
+        // Process the current phase for each actor
+        [world, actors] = playTurn(world, actors, phases);
 
-        // Print the updated game state and actors' health
+        // Print the updated game state, the events of the turn and the balance of the player
         printGame(world, actors);
-        printHealth(actors);
+        bus.publish(getEvents(world));
+        printBalance(world);
     }
 }
 
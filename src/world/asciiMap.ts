@@ -0,0 +1,106 @@
+/**
+ * @file asciiMap.ts
+ * @brief This file contains the import of levels drawn as ASCII grids, with the legend of the console.
+ */
+
+import { Level, LevelActor, LevelCategory, loadLevel } from "./level";
+import { World, WorldOptions } from "./world";
+import { Actor, ActorType } from "../actors/actors";
+import { getTemplate, getTemplateName } from "../actors/templateRegistry";
+import { ActorStore, storeToList } from "../actors/actorStore";
+import { createPosition, positionKey } from "../common/position";
+import { listToArray } from "../common/list";
+import { actorLegend, emptyCellChar, getBoardString } from "../graphics/consoleGraphics";
+
+/**
+ * @brief The level category of the templates of each actor type.
+ */
+const categoryOfType: Partial<Record<ActorType, LevelCategory>> = {
+    WALL: "walls",
+    SPAWNER: "spawners",
+    ENEMY: "enemies",
+    TOWER: "towers",
+    GOAL: "goals"
+};
+
+/**
+ * @brief Returns the name of the template drawn with the given character.
+ *
+ * @param {string} char - The character.
+ * @return {string | undefined} The template name, or undefined if no template is drawn with this character.
+ */
+const getTemplateOfChar = (char: string): string | undefined =>
+    Object.keys(actorLegend).find((templateName) => actorLegend[templateName] === char);
+
+/**
+ * @brief Converts an ASCII grid into a level.
+ *
+ * The grid is read as printed by the console: the first line is the top of the world (greatest y)
+ * and each character is a cell, from x = 0 on the left. Empty cells are drawn with "*" or a space.
+ * Blank lines around the grid are ignored and lines shorter than the longest one end with empty cells.
+ * A grid declares no wave, no budget and no terrain, and uses 4 neighbours: they can be changed in the returned level.
+ * A cell holds one actor at most: a board whose cells held several actors loses all of them but the drawn one, see getAsciiMap.
+ *
+ * @param {string} text - The ASCII grid.
+ * @return {Level} The level drawn in the grid.
+ * @throws An error if the grid is empty or if a character is not in the legend.
+ */
+function asciiMapToLevel(text: string): Level {
+    const lines = text.split("\n").map((line) => line.replace(/\s+$/, ""));
+    const first = lines.findIndex((line) => line.length > 0);
+    const last = lines.length - 1 - [...lines].reverse().findIndex((line) => line.length > 0);
+    if (first === -1)
+        throw new Error("Empty map");
+    const rows = lines.slice(first, last + 1);
+    const width = Math.max(...rows.map((row) => row.length));
+    const size = createPosition(width - 1, rows.length - 1);
+
+    return rows.reduce((level: Level, row, i) => [...row.padEnd(width, " ")].reduce((level: Level, char, x) => {
+        const position = createPosition(x, size.y - i);
+        if (char === emptyCellChar || char === " ")
+            return level;
+        const templateName = getTemplateOfChar(char);
+        if (!templateName)
+            throw new Error(`Unknown character "${char}" at line ${first + i + 1}, column ${x + 1}`);
+        const category = categoryOfType[(<Actor>getTemplate(templateName)).type];
+        if (!category)
+            throw new Error(`Template "${templateName}" cannot be placed in a level`);
+        return { ...level, [category]: [...level[category], <LevelActor>{ template: templateName, position: position }] };
+    }, level), <Level>{ size: size, walls: [], spawners: [], enemies: [], towers: [], goals: [], waves: [], budget: 0, terrain: [], connectivity: 4, phases: [] });
+}
+
+/**
+ * @brief Returns the board of a game as an ASCII grid that asciiMapToLevel reads back with the same actors.
+ *
+ * The console draws one actor per cell, so a board whose cells hold several actors, like an enemy on its spawner, cannot be read back.
+ *
+ * @param {World} aWorld - The world of the game.
+ * @param {ActorStore} actors - The actors of the game.
+ * @return {string} The board, as printed by the console.
+ * @throws An error listing the cells holding several actors.
+ */
+function getAsciiMap(aWorld: World, actors: ActorStore): string {
+    const cells = listToArray(storeToList(actors)).reduce((cells, anActor) =>
+        cells.set(positionKey(anActor.position), [...(cells.get(positionKey(anActor.position)) ?? []), anActor]), new Map<number, Actor[]>());
+    const stacked = [...cells.values()].filter((cell) => cell.length > 1).map((cell) =>
+        `(${cell[0].position.x}, ${cell[0].position.y}) holds ${cell.map((anActor) => getTemplateName(anActor) ?? anActor.name).join(", ")}`);
+    if (stacked.length > 0)
+        throw new Error(`A map holds one actor per cell:\n${stacked.join("\n")}`);
+    return getBoardString(aWorld, actors);
+}
+
+/**
+ * @brief Loads a level drawn as an ASCII grid into a world and its actors.
+ *
+ * @param {string} text - The ASCII grid.
+ * @param {WorldOptions} options - The options of the world (seed...).
+ * @return {[World, ActorStore]} The world and the store of the actors of the level.
+ * @throws An error if the grid cannot be read or if the level is invalid.
+ */
+const loadAsciiMap = (text: string, options: WorldOptions = {}): [World, ActorStore] => loadLevel(asciiMapToLevel(text), options);
+
+export {
+    asciiMapToLevel,
+    getAsciiMap,
+    loadAsciiMap
+};
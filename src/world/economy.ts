@@ -0,0 +1,72 @@
+/**
+ * @file economy.ts
+ * @brief This file contains the currency of the player: the bounties earned on kills and the price of the actors.
+ */
+
+import { World } from "./world";
+import { Actor } from "../actors/actors";
+
+/**
+ * @brief Returns the balance of the player.
+ *
+ * @param {World} aWorld - The world holding the balance.
+ * @return {number} The money of the player.
+ */
+const getBalance = (aWorld: World): number => aWorld.balance;
+
+/**
+ * @brief Returns the price of an actor.
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {number} The price of the actor, 0 if it has none.
+ */
+const getCost = (anActor: Actor): number => anActor.cost ?? 0;
+
+/**
+ * @brief Returns the money earned when an actor is killed.
+ *
+ * @param {Actor} anActor - The actor.
+ * @return {number} The bounty of the actor, 0 if it has none.
+ */
+const getBounty = (anActor: Actor): number => anActor.bounty ?? 0;
+
+/**
+ * @brief Adds money to the balance of the player.
+ *
+ * @param {World} aWorld - The world holding the balance.
+ * @param {number} amount - The money earned.
+ * @return {World} A new world with the new balance.
+ */
+const earn = (aWorld: World, amount: number): World => ({ ...aWorld, balance: aWorld.balance + amount });
+
+/**
+ * @brief Checks whether the player can pay an amount.
+ *
+ * @param {World} aWorld - The world holding the balance.
+ * @param {number} amount - The money to pay.
+ * @return {boolean} True if the balance covers the amount.
+ */
+const canAfford = (aWorld: World, amount: number): boolean => aWorld.balance >= amount;
+
+/**
+ * @brief Takes money from the balance of the player.
+ *
+ * @param {World} aWorld - The world holding the balance.
+ * @param {number} amount - The money spent.
+ * @return {World} A new world with the new balance.
+ * @throws An error if the balance does not cover the amount.
+ */
+function spend(aWorld: World, amount: number): World {
+    if (!canAfford(aWorld, amount))
+        throw new Error(`Insufficient funds: ${amount} needed, ${aWorld.balance} available`);
+    return { ...aWorld, balance: aWorld.balance - amount };
+}
+
+export {
+    getBalance,
+    getCost,
+    getBounty,
+    earn,
+    canAfford,
+    spend
+};
@@ -0,0 +1,163 @@
+/**
+ * @file events.ts
+ * @brief This file contains the events emitted by the phase resolvers, kept by the world for the current turn.
+ */
+
+import { World } from "./world";
+import { List, arrayToList, cons, listToArray } from "../common/list";
+import { Position } from "../common/position";
+
+/**
+ * @brief An actor lost health, from an attack or a poison.
+ *
+ * @property {number} target - The id of the damaged actor.
+ * @property {number} damage - The health lost by the actor.
+ * @property {number} health - The health of the actor after the damage, 0 or less when it is killed.
+ */
+type ActorDamaged = {
+    readonly kind: "ActorDamaged";
+    readonly turn: number;
+    readonly source: number;
+    readonly target: number;
+    readonly damage: number;
+    readonly health: number;
+}
+
+/**
+ * @brief An actor was removed from the game.
+ *
+ * @property {number} target - The id of the killed actor.
+ * @property {string} name - The name of the killed actor.
+ */
+type ActorKilled = {
+    readonly kind: "ActorKilled";
+    readonly turn: number;
+    readonly source: number;
+    readonly target: number;
+    readonly name: string;
+}
+
+/**
+ * @brief An actor entered the game.
+ *
+ * @property {number} target - The id of the spawned actor.
+ * @property {string} name - The name of the spawned actor.
+ * @property {Position} position - The position of the spawned actor.
+ */
+type ActorSpawned = {
+    readonly kind: "ActorSpawned";
+    readonly turn: number;
+    readonly source: number;
+    readonly target: number;
+    readonly name: string;
+    readonly position: Position;
+}
+
+/**
+ * @brief An actor gained health.
+ *
+ * @property {number} target - The id of the healed actor.
+ * @property {number} heal - The health gained by the actor, capped by its maximum health.
+ * @property {number} health - The health of the actor after the heal.
+ */
+type ActorHealed = {
+    readonly kind: "ActorHealed";
+    readonly turn: number;
+    readonly source: number;
+    readonly target: number;
+    readonly heal: number;
+    readonly health: number;
+}
+
+/**
+ * @brief An actor moved to another cell. The source is the actor that moved.
+ *
+ * @property {Position} from - The position of the actor before the move.
+ * @property {Position} to - The position of the actor after the move.
+ */
+type ActorMoved = {
+    readonly kind: "ActorMoved";
+    readonly turn: number;
+    readonly source: number;
+    readonly from: Position;
+    readonly to: Position;
+}
+
+/**
+ * @brief An attack threw a projectile. The source is the actor that threw it.
+ *
+ * @property {number} projectile - The id of the projectile.
+ * @property {number} target - The id of the actor aimed at.
+ * @property {string} name - The name of the projectile.
+ * @property {Position} impact - The cell the projectile flies to.
+ */
+type ProjectileLaunched = {
+    readonly kind: "ProjectileLaunched";
+    readonly turn: number;
+    readonly source: number;
+    readonly projectile: number;
+    readonly target: number;
+    readonly name: string;
+    readonly impact: Position;
+}
+
+/**
+ * @brief A projectile landed on a cell its target, still in the game, was not on. The source is the actor that threw it.
+ *
+ * A projectile whose target was removed before the impact lands without any event.
+ *
+ * @property {number} projectile - The id of the projectile.
+ * @property {number} target - The id of the actor that dodged it.
+ * @property {Position} impact - The cell the projectile landed on.
+ */
+type ProjectileMissed = {
+    readonly kind: "ProjectileMissed";
+    readonly turn: number;
+    readonly source: number;
+    readonly projectile: number;
+    readonly target: number;
+    readonly impact: Position;
+}
+
+/**
+ * @brief An event of the game, emitted during the turn `turn` because of the actor `source`.
+ */
+type GameEvent = ActorDamaged | ActorKilled | ActorSpawned | ActorHealed | ActorMoved | ProjectileLaunched | ProjectileMissed
+
+/**
+ * @brief The kinds of events.
+ */
+type GameEventKind = GameEvent["kind"]
+
+/**
+ * @brief Returns a new world with an event added to the events of the current turn.
+ *
+ * The world keeps the events the last emitted first, so that emitting an event takes the same time whatever the number of events of the turn.
+ *
+ * @param {World} aWorld - The world.
+ * @param {GameEvent} event - The event to add.
+ * @returns {World} A new world with the event.
+ */
+const emit = (aWorld: World, event: GameEvent): World => ({ ...aWorld, events: cons(event, aWorld.events) });
+
+/**
+ * @brief Returns the events emitted during the current turn of a world, in the order they were emitted.
+ *
+ * @param {World} aWorld - The world.
+ * @returns {List<GameEvent>} The events of the current turn.
+ */
+const getEvents = (aWorld: World): List<GameEvent> => arrayToList(listToArray(aWorld.events).reverse());
+
+export {
+    ActorDamaged,
+    ActorKilled,
+    ActorSpawned,
+    ActorHealed,
+    ActorMoved,
+    ProjectileLaunched,
+    ProjectileMissed,
+    GameEvent,
+    GameEventKind,
+    emit,
+    getEvents
+};
@@ -0,0 +1,200 @@
+/**
+ * @file flowField.ts
+ * @brief This file contains the flow field of the enemies: the cheapest walk from every cell of the world to a goal, shared by all the enemies.
+ */
+
+import { World, isInWorld } from "./world";
+import { Actor, blocksEnemies } from "../actors/actors";
+import { Graph, gridDistance } from "../common/graph";
+import { Vertex } from "../common/vertex";
+import { List, isEmpty, listToArray } from "../common/list";
+import { Position } from "../common/position";
+import { createHeap, heapPop, heapPush, heapSize } from "../common/heap";
+
+/**
+ * @brief The cheapest walk from every cell of a world to a goal.
+ *
+ * The cells are indexed by y * width + x.
+ */
+type FlowField = {
+    readonly width: number;                             /** The number of cells of a row of the world. */
+    readonly costs: readonly number[];                  /** The cost of the cheapest walk from each cell to a goal, Infinity if no goal can be reached. */
+    readonly next: readonly (Position | undefined)[];   /** The cell each cell leads to, undefined on a goal or if no goal can be reached. */
+    readonly steps: readonly number[];                  /** The number of steps from each cell to its goal, Infinity if no goal can be reached. */
+}
+
+/**
+ * @brief The tolerance of the comparison of two costs, made of sums of square roots.
+ */
+const epsilon = 1e-9;
+
+/**
+ * @brief The order of the steps a cell prefers between neighbours with walks and scores of the same cost.
+ *
+ * The pathfinding breaks its ties by the order it explores the cells, which depends on the whole search and not on the step alone,
+ * so no order of steps gives its paths on every layout. This one gives them on the kitchen, with 4 and 8 neighbours. On other layouts,
+ * an enemy can take another walk than the pathfinding would give it, always of the same cost.
+ */
+const tieOrder: readonly [number, number][] = [[1, 1], [0, 1], [1, 0], [0, -1], [1, -1], [-1, 1], [-1, 0], [-1, -1]];
+
+/**
+ * @brief Returns the rank of a step in the tie order.
+ *
+ * @param {Position} src - The cell the step starts from.
+ * @param {Position} dst - The cell the step ends on.
+ * @return {number} The rank of the step, the lowest is preferred.
+ */
+const tieRank = (src: Position, dst: Position): number => tieOrder.findIndex(([dx, dy]) => dst.x - src.x === dx && dst.y - src.y === dy);
+
+/**
+ * @brief Compares two lists of costs in lexicographic order, two costs closer than the tolerance being equal.
+ *
+ * @param {number[]} costs1 - The first costs.
+ * @param {number[]} costs2 - The second costs, as long as the first ones.
+ * @return {boolean} True if the first costs are lower than the second ones.
+ */
+function isCheaper(costs1: number[], costs2: number[]): boolean {
+    const i = costs1.findIndex((cost, i) => Math.abs(cost - costs2[i]) > epsilon);
+    return i !== -1 && costs1[i] < costs2[i];
+}
+
+/**
+ * @brief The flow fields already computed, by graph then by list of actors.
+ *
+ * The actors of a phase share the same list, so the field is computed once for all the enemies moving in this phase.
+ */
+const flowFields: WeakMap<Graph, WeakMap<object, FlowField>> = new WeakMap();
+
+/**
+ * @brief Computes the flow field of a world with a reverse Dijkstra search from every goal, over a binary heap.
+ *
+ * A walk follows the edges of the graph, enters no cell holding an actor that blocks the enemies and cuts no corner of such a cell,
+ * like the paths of the pathfinding. A cell leads to the neighbour with the cheapest walk to a goal. On a tie, it prefers the neighbour
+ * with the lowest score of the pathfinding (the weight of the step plus the grid distance to the closest goal), then follows the tie order.
+ *
+ * @param {World} aWorld - The game world.
+ * @param {List<Actor>} actors - The list of actors.
+ * @return {FlowField} The flow field of the world.
+ */
+function computeFlowField(aWorld: World, actors: List<Actor>): FlowField {
+    const width = aWorld.size.x + 1;
+    const index = (pos: Position) => pos.y * width + pos.x;
+    const cells = (aWorld.size.y + 1) * width;
+    const vertexes: Vertex[] = [];
+    listToArray(aWorld.graph.vertexes).forEach((vertex) => vertexes[index(vertex.pos)] = vertex);
+    const blocked: boolean[] = new Array(cells).fill(false);
+    const costs: number[] = new Array(cells).fill(Infinity);
+    const goal: boolean[] = new Array(cells).fill(false);
+    listToArray(actors)
+        .filter((anActor) => isInWorld(aWorld, anActor.position))
+        .forEach((anActor) => {
+            blocked[index(anActor.position)] ||= blocksEnemies(anActor);
+            goal[index(anActor.position)] ||= anActor.type === "GOAL";
+        });
+    const cutsCorner = (src: Position, dst: Position) =>
+        src.x !== dst.x && src.y !== dst.y && (blocked[dst.y * width + src.x] || blocked[src.y * width + dst.x]);
+    const canStep = (src: Position, dst: Position) => !blocked[index(dst)] && !cutsCorner(src, dst);
+    const goals = vertexes.filter((vertex) => goal[index(vertex.pos)]).map((vertex) => vertex.pos);
+    const heuristic = (pos: Position) => Math.min(...goals.map((aGoal) => gridDistance(pos, aGoal, aWorld.graph.connectivity ?? 4)));
+
+    const reverse: [Position, number][][] = Array.from({ length: cells }, () => []);
+    vertexes.forEach((vertex) => listToArray(vertex.adj).forEach((edge) => reverse[index(edge.vertex.pos)].push([vertex.pos, edge.weight])));
+
+    const open = createHeap<[number, number]>(([cost1, i1], [cost2, i2]) => cost1 < cost2 || (cost1 === cost2 && i1 < i2));
+    goal.forEach((isGoal, i) => {
+        if (isGoal && !blocked[i]) {
+            costs[i] = 0;
+            heapPush(open, [0, i]);
+        }
+    });
+    const done: boolean[] = new Array(cells).fill(false);
+    while (heapSize(open) > 0) {
+        const [, current] = <[number, number]>heapPop(open);
+        if (done[current])
+            continue;
+        done[current] = true;
+        const pos = vertexes[current].pos;
+        reverse[current]
+            .filter(([src, weight]) => !done[index(src)] && canStep(src, pos) && costs[current] + weight < costs[index(src)] - epsilon)
+            .forEach(([src, weight]) => {
+                costs[index(src)] = costs[current] + weight;
+                heapPush(open, [costs[index(src)], index(src)]);
+            });
+    }
+
+    const next = vertexes.map((vertex): Position | undefined => {
+        if (goal[index(vertex.pos)])
+            return undefined;
+        return listToArray(vertex.adj)
+            .filter((edge) => canStep(vertex.pos, edge.vertex.pos) && costs[index(edge.vertex.pos)] < Infinity)
+            .map((edge): [Position, number[]] => [edge.vertex.pos, [edge.weight + costs[index(edge.vertex.pos)], edge.weight + heuristic(edge.vertex.pos), tieRank(vertex.pos, edge.vertex.pos)]])
+            .reduce((best: [Position, number[]] | undefined, step) => best && !isCheaper(step[1], best[1]) ? best : step, undefined)?.[0];
+    });
+    const steps: (number | undefined)[] = new Array(cells).fill(undefined);
+    const countSteps = (start: number): void => {
+        const walk: number[] = [];
+        let i = start;
+        for (let to = next[i]; steps[i] === undefined && !goal[i] && to; to = next[i]) {
+            walk.push(i);
+            i = index(to);
+        }
+        const end = steps[i] ?? (goal[i] ? 0 : Infinity);
+        steps[i] = end;
+        walk.reverse().forEach((cell, k) => steps[cell] = end + k + 1);
+    };
+    vertexes.forEach((_vertex, i) => countSteps(i));
+    return { width: width, costs: costs, next: next, steps: steps.map((count) => count ?? Infinity) };
+}
+
+/**
+ * @brief Returns the flow field of a world, computed once for a graph and a list of actors.
+ *
+ * @param {World} aWorld - The game world.
+ * @param {List<Actor>} actors - The list of actors.
+ * @return {FlowField} The flow field of the world.
+ */
+function getFlowField(aWorld: World, actors: List<Actor>): FlowField {
+    if (isEmpty(actors))
+        return computeFlowField(aWorld, actors);
+    const byActors = flowFields.get(aWorld.graph) ?? new WeakMap();
+    flowFields.set(aWorld.graph, byActors);
+    const field = byActors.get(actors) ?? computeFlowField(aWorld, actors);
+    byActors.set(actors, field);
+    return field;
+}
+
+/**
+ * @brief Returns the index of a position in a flow field.
+ *
+ * @param {FlowField} field - The flow field.
+ * @param {Position} pos - The position.
+ * @return {number} The index of the cell, -1 if the position is out of the world.
+ */
+const fieldIndex = (field: FlowField, pos: Position): number =>
+    pos.x < 0 || pos.x >= field.width || pos.y < 0 || pos.y * field.width + pos.x >= field.costs.length ? -1 : pos.y * field.width + pos.x;
+
+/**
+ * @brief Returns the cell a walk to the cheapest goal goes through after a position.
+ *
+ * @param {FlowField} field - The flow field.
+ * @param {Position} pos - The position.
+ * @return {Position | undefined} The next cell, undefined on a goal, out of the world or if no goal can be reached.
+ */
+const getFlowNext = (field: FlowField, pos: Position): Position | undefined => field.next[fieldIndex(field, pos)];
+
+/**
+ * @brief Returns the number of steps of the walk from a position to the cheapest goal.
+ *
+ * @param {FlowField} field - The flow field.
+ * @param {Position} pos - The position.
+ * @return {number} The number of steps, 0 on a goal and Infinity out of the world or if no goal can be reached.
+ */
+const getFlowSteps = (field: FlowField, pos: Position): number => field.steps[fieldIndex(field, pos)] ?? Infinity;
+
+export {
+    FlowField,
+    computeFlowField,
+    getFlowField,
+    getFlowNext,
+    getFlowSteps
+};
@@ -0,0 +1,71 @@
+/**
+ * @file kitchen.ts
+ * @brief This file contains the built-in level of the game, a copy of levels/kitchen.json.
+ */
+
+import { Level } from "./level";
+import { createPosition } from "../common/position";
+
+/**
+ * @brief The kitchen of Gusteau's restaurant: a 10x10 room with a hole on the left and Linguini on the right.
+ */
+const kitchen: Level = {
+    size: createPosition(10, 10),
+    walls: [
+        { template: "worktop", position: createPosition(0, 10) },
+        { template: "worktop", position: createPosition(1, 10) },
+        { template: "worktop", position: createPosition(3, 10) },
+        { template: "worktop", position: createPosition(4, 10) },
+        { template: "worktop", position: createPosition(5, 10) },
+        { template: "worktop", position: createPosition(8, 10) },
+        { template: "worktop", position: createPosition(9, 10) },
+        { template: "worktop", position: createPosition(10, 10) },
+        { template: "marmite", position: createPosition(2, 10) },
+        { template: "marmite", position: createPosition(6, 10) },
+        { template: "marmite", position: createPosition(7, 10) },
+        { template: "worktop", position: createPosition(0, 0) },
+        { template: "worktop", position: createPosition(1, 0) },
+        { template: "worktop", position: createPosition(2, 0) },
+        { template: "worktop", position: createPosition(3, 0) },
+        { template: "worktop", position: createPosition(5, 0) },
+        { template: "worktop", position: createPosition(7, 0) },
+        { template: "worktop", position: createPosition(9, 0) },
+        { template: "worktop", position: createPosition(10, 0) },
+        { template: "marmite", position: createPosition(4, 0) },
+        { template: "marmite", position: createPosition(6, 0) },
+        { template: "marmite", position: createPosition(8, 0) }
+    ],
+    spawners: [
+        { template: "hole", position: createPosition(0, 5) }
+    ],
+    enemies: [
+        { template: "remyWithSpoon", position: createPosition(0, 5) },
+        { template: "remyWithSpoon", position: createPosition(0, 4) },
+        { template: "remyWithSpoon", position: createPosition(0, 6) },
+        { template: "remyThrowingCheese", position: createPosition(1, 7) },
+        { template: "remyThrowingCheese", position: createPosition(1, 3) }
+    ],
+    towers: [
+        { template: "gusteauWithPan", position: createPosition(5, 5) },
+        { template: "gusteauWithPan", position: createPosition(5, 4) },
+        { template: "gusteauWithPan", position: createPosition(5, 6) },
+        { template: "gusteauWithPan", position: createPosition(6, 7) },
+        { template: "gusteauWithPan", position: createPosition(6, 3) },
+        { template: "gusteauWithPan", position: createPosition(9, 2) },
+        { template: "gusteauWithPan", position: createPosition(9, 8) }
+    ],
+    goals: [
+        { template: "linguini", position: createPosition(8, 5) }
+    ],
+    waves: [
+        { turn: 3, spawner: createPosition(0, 5), template: "remyWithSpoon", count: 6, delay: 3 }
+    ],
+    budget: 100,
+    terrain: [],
+    connectivity: 4,
+    phases: ["heal", "spawn", "attack", "move"]
+};
+
+export {
+    kitchen
+};
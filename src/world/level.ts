@@ -0,0 +1,232 @@
+/**
+ * @file level.ts
+ * @brief This file contains the level format (JSON) and the loading of a level into a world and its actors.
+ */
+
+import { World, WorldOptions, buildWorld, isInWorld } from "./world";
+import { ActorType, resetIds } from "../actors/actors";
+import { createActorFromTemplate, getTemplate } from "../actors/templateRegistry";
+import { ActorStore, createActorStore } from "../actors/actorStore";
+import { arrayToList } from "../common/list";
+import { Position, positionEquals } from "../common/position";
+import { Wave, scheduleWaves } from "./waves";
+import { TerrainCell, isTerrainType } from "./terrain";
+import { Connectivity } from "../common/graph";
+
+/**
+ * @brief An actor declared in a level.
+ *
+ * @property {string} template - The name of the template of the actor (see the template registry).
+ * @property {Position} position - The position of the actor.
+ */
+type LevelActor = {
+    readonly template: string;
+    readonly position: Position;
+}
+
+/**
+ * @brief A level: the size of the world, the actors placed in it, by category, the waves of enemies of its spawners,
+ * the starting budget of the player, the cells that are not floor, the number of neighbours of a cell (4 or 8)
+ * and the order the phases of a turn are played in (empty for the default order).
+ * The actors of the level are free, the budget is spent on the actors placed during the game.
+ */
+type Level = {
+    readonly size: Position;
+    readonly walls: LevelActor[];
+    readonly spawners: LevelActor[];
+    readonly enemies: LevelActor[];
+    readonly towers: LevelActor[];
+    readonly goals: LevelActor[];
+    readonly waves: Wave[];
+    readonly budget: number;
+    readonly terrain: TerrainCell[];
+    readonly connectivity: Connectivity;
+    readonly phases: string[];
+}
+
+/**
+ * @brief The categories of actors of a level.
+ */
+type LevelCategory = "walls" | "spawners" | "enemies" | "towers" | "goals"
+
+/**
+ * @brief The categories of actors of a level, in the order the actors are created, with the type of their templates.
+ */
+const levelCategories: [LevelCategory, ActorType][] = [
+    ["walls", "WALL"],
+    ["spawners", "SPAWNER"],
+    ["enemies", "ENEMY"],
+    ["towers", "TOWER"],
+    ["goals", "GOAL"]
+];
+
+/**
+ * @brief Checks whether a value is a position.
+ *
+ * @param value The value to check.
+ * @return True if the value has numeric x and y coordinates.
+ */
+const isPosition = (value: unknown): value is Position =>
+    typeof value === "object" && value !== null && typeof (<Position>value).x === "number" && typeof (<Position>value).y === "number";
+
+/**
+ * @brief Checks whether a value is a wave.
+ *
+ * @param value The value to check.
+ * @return True if the value has a numeric turn, count and delay, a spawner position and a template name.
+ */
+const isWave = (value: unknown): value is Wave =>
+    typeof value === "object" && value !== null && isPosition((<Wave>value).spawner) && typeof (<Wave>value).template === "string"
+    && typeof (<Wave>value).turn === "number" && typeof (<Wave>value).count === "number" && typeof (<Wave>value).delay === "number";
+
+/**
+ * @brief Reads a level from the content of a level file.
+ *
+ * Missing categories, waves, terrain and phases are read as empty, a missing budget as 0 and a missing connectivity as 4. The content of the level is not validated, see validateLevel.
+ *
+ * @param {string} json - The JSON content of the level file.
+ * @returns {Level} The level.
+ * @throws An error if the content does not have the shape of a level.
+ */
+function parseLevel(json: string): Level {
+    const data = JSON.parse(json);
+    if (typeof data !== "object" || data === null || !isPosition(data.size))
+        throw new Error("Invalid level file: missing size");
+    const waves = data.waves ?? [];
+    if (!Array.isArray(waves) || !waves.every(isWave))
+        throw new Error("Invalid level file: waves must be a list of { turn, spawner, template, count, delay }");
+    const budget = data.budget ?? 0;
+    if (typeof budget !== "number")
+        throw new Error("Invalid level file: budget must be a number");
+    const terrain = data.terrain ?? [];
+    if (!Array.isArray(terrain) || !terrain.every((cell) => typeof cell?.type === "string" && isPosition(cell.position)))
+        throw new Error("Invalid level file: terrain must be a list of { type, position }");
+    const connectivity = data.connectivity ?? 4;
+    if (typeof connectivity !== "number")
+        throw new Error("Invalid level file: connectivity must be a number");
+    const phases = data.phases ?? [];
+    if (!Array.isArray(phases) || !phases.every((phase) => typeof phase === "string"))
+        throw new Error("Invalid level file: phases must be a list of phase names");
+    return levelCategories.reduce((level, [category]) => {
+        const actors = data[category] ?? [];
+        if (!Array.isArray(actors) || !actors.every((actor) => typeof actor?.template === "string" && isPosition(actor.position)))
+            throw new Error(`Invalid level file: ${category} must be a list of { template, position }`);
+        return { ...level, [category]: actors };
+    }, <Level>{ size: data.size, walls: [], spawners: [], enemies: [], towers: [], goals: [], waves: waves, budget: budget, terrain: terrain, connectivity: connectivity, phases: phases });
+}
+
+/**
+ * @brief Checks a wave of a level.
+ *
+ * @param {Level} level - The level of the wave.
+ * @param {Wave} wave - The wave to check.
+ * @param {string} where - The name of the wave in the error messages.
+ * @returns {string[]} The errors found in the wave, empty if the wave is valid.
+ */
+function validateWave(level: Level, wave: Wave, where: string): string[] {
+    const template = getTemplate(wave.template);
+    if (!template)
+        return [`${where}: unknown template "${wave.template}"`];
+    if (template.type !== "ENEMY")
+        return [`${where}: template "${wave.template}" is a ${template.type}, not an ENEMY`];
+    if (!level.spawners.some((spawner) => positionEquals(spawner.position, wave.spawner)))
+        return [`${where}: no spawner at (${wave.spawner.x}, ${wave.spawner.y})`];
+    if (!Number.isInteger(wave.turn) || wave.turn < 1)
+        return [`${where}: turn must be an integer greater than 0`];
+    if (!Number.isInteger(wave.count) || wave.count < 1)
+        return [`${where}: count must be an integer greater than 0`];
+    if (!Number.isInteger(wave.delay) || wave.delay < 0)
+        return [`${where}: delay must be a positive integer`];
+    return [];
+}
+
+/**
+ * @brief Checks the terrain of a level.
+ *
+ * @param {Level} level - The level.
+ * @param {World} world - The world of the level.
+ * @returns {string[]} The errors found in the terrain, empty if the terrain is valid.
+ */
+function validateTerrain(level: Level, world: World): string[] {
+    return level.terrain.flatMap((cell, i) => {
+        const where = `terrain[${i}]`;
+        if (!isTerrainType(cell.type))
+            return [`${where}: unknown terrain "${cell.type}"`];
+        if (!isInWorld(world, cell.position))
+            return [`${where}: position (${cell.position.x}, ${cell.position.y}) is out of the world`];
+        if (level.terrain.findIndex((other) => positionEquals(other.position, cell.position)) !== i)
+            return [`${where}: position (${cell.position.x}, ${cell.position.y}) already has a terrain`];
+        return [];
+    });
+}
+
+/**
+ * @brief Checks the content of a level.
+ *
+ * A level is invalid if it uses an unknown template, a template of another category,
+ * a position out of the world, or if two blocking actors (neither ENEMY nor GOAL) share a position.
+ * A wave is invalid if it spawns no ENEMY, from no spawner of the level, or if its timing is not a positive integer.
+ * The budget cannot be negative, every terrain cell must be of a known type, in the world, and listed once,
+ * and the connectivity must be 4 or 8. The phases must be played once each; whether they are registered is checked by the engine when it computes the phases of the world.
+ *
+ * @param {Level} level - The level to check.
+ * @returns {string[]} The errors found in the level, empty if the level is valid.
+ */
+function validateLevel(level: Level): string[] {
+    const world = buildWorld(level.size);
+    const blocking: Record<string, string> = {};
+    const actorErrors = levelCategories.flatMap(([category, type]) => level[category].flatMap((actor, i) => {
+        const where = `${category}[${i}]`;
+        const template = getTemplate(actor.template);
+        if (!template)
+            return [`${where}: unknown template "${actor.template}"`];
+        if (template.type !== type)
+            return [`${where}: template "${actor.template}" is a ${template.type}, not a ${type}`];
+        if (!isInWorld(world, actor.position))
+            return [`${where}: position (${actor.position.x}, ${actor.position.y}) is out of the world`];
+        if (type === "ENEMY" || type === "GOAL")
+            return [];
+        const key = `${actor.position.x},${actor.position.y}`;
+        if (blocking[key])
+            return [`${where}: position (${actor.position.x}, ${actor.position.y}) is already taken by ${blocking[key]}`];
+        blocking[key] = where;
+        return [];
+    }));
+    return [
+        ...actorErrors,
+        ...level.waves.flatMap((wave, i) => validateWave(level, wave, `waves[${i}]`)),
+        ...(level.budget < 0 ? ["budget: cannot be negative"] : []),
+        ...validateTerrain(level, world),
+        ...(level.connectivity !== 4 && level.connectivity !== 8 ? [`connectivity: must be 4 or 8, not ${level.connectivity}`] : []),
+        ...level.phases.flatMap((phase, i) => level.phases.indexOf(phase) !== i ? [`phases[${i}]: phase "${phase}" is played twice`] : [])
+    ];
+}
+
+/**
+ * @brief Loads a level into a world and its actors.
+ *
+ * The identifiers of the actors restart from 0, so that the same level and the same seed always play the same game.
+ * The waves of the level are scheduled in the world and the balance of the player starts at the budget of the level.
+ *
+ * @param {Level} level - The level to load.
+ * @param {WorldOptions} options - The options of the world (seed...).
+ * @returns {[World, ActorStore]} The world and the store of the actors of the level.
+ * @throws An error listing every problem of the level if it is invalid.
+ */
+function loadLevel(level: Level, options: WorldOptions = {}): [World, ActorStore] {
+    const errors = validateLevel(level);
+    if (errors.length > 0)
+        throw new Error(`Invalid level:\n${errors.join("\n")}`);
+    resetIds();
+    const actors = levelCategories.flatMap(([category]) => level[category].map((actor) => createActorFromTemplate(actor.template, actor.position)));
+    return [{ ...buildWorld(level.size, { ...options, terrain: level.terrain, connectivity: level.connectivity, phases: level.phases }), spawns: scheduleWaves(level.waves), balance: level.budget }, createActorStore(arrayToList(actors))];
+}
+
+export {
+    LevelActor,
+    Level,
+    LevelCategory,
+    parseLevel,
+    validateLevel,
+    loadLevel
+};
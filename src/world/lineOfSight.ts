@@ -0,0 +1,79 @@
+/**
+ * @file lineOfSight.ts
+ * @brief This file contains the line-of-sight queries over the grid of the world: the walls block the view of the actors.
+ */
+
+import { Actor, getAllActorsInRange } from "../actors/actors";
+import { List, arrayToList, listToArray } from "../common/list";
+import { Position, createPosition } from "../common/position";
+import { getActorsInCell, getSpatialHash } from "./spatialHash";
+
+/**
+ * @brief Returns the cells crossed by the segment between two cells, with the Bresenham algorithm.
+ *
+ * @param {Position} from - The first cell.
+ * @param {Position} to - The last cell.
+ * @return {Position[]} The cells of the segment, from the first one to the last one, both included.
+ */
+function bresenhamLine(from: Position, to: Position): Position[] {
+    const [dx, dy] = [Math.abs(to.x - from.x), -Math.abs(to.y - from.y)];
+    const [sx, sy] = [from.x < to.x ? 1 : -1, from.y < to.y ? 1 : -1];
+    const line = [createPosition(from.x, from.y)];
+    let [x, y, error] = [from.x, from.y, dx + dy];
+    while (x !== to.x || y !== to.y) {
+        const doubled = 2 * error;
+        if (doubled >= dy) {
+            x += sx;
+            error += dy;
+        }
+        if (doubled <= dx) {
+            y += sy;
+            error += dx;
+        }
+        line.push(createPosition(x, y));
+    }
+    return line;
+}
+
+/**
+ * @brief Checks whether a cell can be seen from another one: no wall stands on the cells between them.
+ *
+ * The walls on the two cells themselves do not block the view. A diagonal step of the line does not pass between
+ * two walls touching at a corner: it is blocked when both cells it brushes hold a wall (see cutsCorner in graph.ts).
+ *
+ * @param {List<Actor>} actors - The list of actors.
+ * @param {Position} from - The cell looking.
+ * @param {Position} to - The cell looked at.
+ * @return {boolean} True if no wall stands between the two cells.
+ */
+function hasLineOfSight(actors: List<Actor>, from: Position, to: Position): boolean {
+    const hash = getSpatialHash(actors);
+    const hasWall = (cell: Position) => listToArray(getActorsInCell(hash, cell)).some((anActor) => anActor.type === "WALL");
+    const line = bresenhamLine(from, to);
+    const throughCorner = line.slice(1).some((cell, i) => cell.x !== line[i].x && cell.y !== line[i].y
+        && hasWall(createPosition(cell.x, line[i].y)) && hasWall(createPosition(line[i].x, cell.y)));
+    return !throughCorner && !line.slice(1, -1).some(hasWall);
+}
+
+/**
+ * @brief Returns the actors within range of an actor that it can attack.
+ *
+ * An actor requiring line of sight only gets the actors it sees, the others get every actor in range.
+ *
+ * @param {List<Actor>} actors - The list of actors.
+ * @param {Actor} anActor - The actor looking around.
+ * @param {number} range - The range of the actor.
+ * @return {List<Actor>} The actors in range, and in sight if the actor requires it.
+ */
+function getActorsInSight(actors: List<Actor>, anActor: Actor, range: number): List<Actor> {
+    const inRange = getAllActorsInRange(actors, anActor, range);
+    if (!anActor.lineOfSight)
+        return inRange;
+    return arrayToList(listToArray(inRange).filter((other) => hasLineOfSight(actors, anActor.position, other.position)));
+}
+
+export {
+    bresenhamLine,
+    hasLineOfSight,
+    getActorsInSight
+};
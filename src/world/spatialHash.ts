@@ -0,0 +1,129 @@
+/**
+ * @file spatialHash.ts
+ * @brief This file contains the spatial hash of a list of actors: the actors bucketed by cell, to answer the range and neighbourhood queries
+ * without measuring the distance to every actor.
+ */
+
+import { Actor } from "../actors/actors";
+import { List, arrayToList, emptyList, isEmpty, listToArray } from "../common/list";
+import { Position, createPosition, positionDistance, positionKey } from "../common/position";
+
+/**
+ * @brief The actors of a list bucketed by cell, each actor with its index in the list.
+ */
+type SpatialHash = {
+    readonly actors: readonly Actor[];                          /** The actors of the list, in order. */
+    readonly buckets: ReadonlyMap<number, readonly number[]>;   /** The indexes of the actors standing on each cell, by key of the cell, in increasing order. */
+    readonly min: Position;                                     /** The lowest coordinates of the actors. */
+    readonly max: Position;                                     /** The greatest coordinates of the actors. */
+}
+
+/**
+ * @brief The offsets of the neighbour cells, in the order the neighbours of a cell are listed.
+ */
+const neighbourOffsets: readonly [number, number][] = [[1, 1], [1, 0], [1, -1], [0, 1], [0, -1], [-1, 1], [-1, 0], [-1, -1]];
+
+/**
+ * @brief The spatial hashes already built, by list of actors.
+ *
+ * The actors of a phase share the same list, so the hash is built once for all the actions of the phase.
+ */
+const spatialHashes: WeakMap<object, SpatialHash> = new WeakMap();
+
+/**
+ * @brief Builds the spatial hash of a list of actors.
+ *
+ * @param {List<Actor>} actors - The list of actors.
+ * @return {SpatialHash} The actors bucketed by cell.
+ */
+function buildSpatialHash(actors: List<Actor>): SpatialHash {
+    const array = listToArray(actors);
+    const buckets = new Map<number, number[]>();
+    array.forEach((anActor, i) => {
+        const key = positionKey(anActor.position);
+        const bucket = buckets.get(key);
+        if (bucket)
+            bucket.push(i);
+        else
+            buckets.set(key, [i]);
+    });
+    const bound = (pick: (a: number, b: number) => number) => array.reduce((acc, anActor) =>
+        createPosition(pick(acc.x, anActor.position.x), pick(acc.y, anActor.position.y)), createPosition(pick(Infinity, -Infinity), pick(Infinity, -Infinity)));
+    return { actors: array, buckets: buckets, min: bound(Math.min), max: bound(Math.max) };
+}
+
+/**
+ * @brief Returns the spatial hash of a list of actors, built once for a list.
+ *
+ * @param {List<Actor>} actors - The list of actors.
+ * @return {SpatialHash} The actors bucketed by cell.
+ */
+function getSpatialHash(actors: List<Actor>): SpatialHash {
+    if (isEmpty(actors))
+        return buildSpatialHash(actors);
+    const hash = spatialHashes.get(actors) ?? buildSpatialHash(actors);
+    spatialHashes.set(actors, hash);
+    return hash;
+}
+
+/**
+ * @brief Returns the actors of the given indexes of a hash, in the order of the list.
+ *
+ * @param {SpatialHash} hash - The spatial hash.
+ * @param {number[]} indexes - The indexes of the actors in the list.
+ * @return {List<Actor>} The actors.
+ */
+const actorsAt = (hash: SpatialHash, indexes: readonly number[]): List<Actor> =>
+    arrayToList([...indexes].sort((i, j) => i - j).map((i) => hash.actors[i]));
+
+/**
+ * @brief Returns the actors standing on a cell.
+ *
+ * @param {SpatialHash} hash - The spatial hash.
+ * @param {Position} pos - The position of the cell.
+ * @return {List<Actor>} The actors on the cell, in the order of the list.
+ */
+const getActorsInCell = (hash: SpatialHash, pos: Position): List<Actor> => actorsAt(hash, hash.buckets.get(positionKey(pos)) ?? []);
+
+/**
+ * @brief Returns the actors within a radius of a position, by Euclidean distance.
+ *
+ * Only the cells of the square around the position are read, unless the square holds more cells than there are actors.
+ *
+ * @param {SpatialHash} hash - The spatial hash.
+ * @param {Position} pos - The center of the circle.
+ * @param {number} radius - The radius of the circle, the actors on the circle being within it.
+ * @return {List<Actor>} The actors within the radius, in the order of the list.
+ */
+function getActorsInRadius(hash: SpatialHash, pos: Position, radius: number): List<Actor> {
+    const [minX, maxX] = [Math.max(Math.floor(pos.x - radius), hash.min.x), Math.min(Math.ceil(pos.x + radius), hash.max.x)];
+    const [minY, maxY] = [Math.max(Math.floor(pos.y - radius), hash.min.y), Math.min(Math.ceil(pos.y + radius), hash.max.y)];
+    const isWithin = (i: number) => positionDistance(hash.actors[i].position, pos) <= radius;
+    if (minX > maxX || minY > maxY)
+        return emptyList();
+    if ((maxX - minX + 1) * (maxY - minY + 1) > hash.actors.length)
+        return actorsAt(hash, hash.actors.map((_anActor, i) => i).filter(isWithin));
+    const xs = Array.from({ length: maxX - minX + 1 }, (_, dx) => minX + dx);
+    const ys = Array.from({ length: maxY - minY + 1 }, (_, dy) => minY + dy);
+    return actorsAt(hash, xs.flatMap((x) => ys.flatMap((y) => hash.buckets.get(positionKey(createPosition(x, y))) ?? [])).filter(isWithin));
+}
+
+/**
+ * @brief Returns the actors standing on the 8 cells around a position.
+ *
+ * @param {SpatialHash} hash - The spatial hash.
+ * @param {Position} pos - The position.
+ * @return {List<Actor>} The actors of the neighbour cells, cell after cell from (x + 1, y + 1) to (x - 1, y - 1),
+ * the actors of a cell in the order of the list.
+ */
+const getNeighboursInHash = (hash: SpatialHash, pos: Position): List<Actor> =>
+    arrayToList(neighbourOffsets.flatMap(([dx, dy]) => listToArray(getActorsInCell(hash, createPosition(pos.x + dx, pos.y + dy)))));
+
+export {
+    SpatialHash,
+    buildSpatialHash,
+    getSpatialHash,
+    getActorsInCell,
+    getActorsInRadius,
+    getNeighboursInHash
+};
@@ -0,0 +1,75 @@
+/**
+ * @file terrain.ts
+ * @brief This file contains the terrain of the cells of the world and the cost of moving across it.
+ */
+
+import { List, head, isEmpty, tail } from "../common/list";
+import { Position, positionEquals } from "../common/position";
+
+/**
+ * @brief The types of terrain a cell can be made of.
+ */
+type TerrainType = "FLOOR" | "CARPET" | "WET_FLOOR" | "STICKY_SAUCE"
+
+/**
+ * @brief A cell of the world whose terrain is not the floor.
+ *
+ * @property {TerrainType} type - The terrain of the cell.
+ * @property {Position} position - The position of the cell.
+ */
+type TerrainCell = {
+    readonly type: TerrainType;
+    readonly position: Position;
+}
+
+/**
+ * @brief The cost of entering a cell of each terrain, the weight of the edges leading to it.
+ */
+const terrainCosts: Readonly<Record<TerrainType, number>> = {
+    FLOOR: 1,
+    CARPET: 2,
+    WET_FLOOR: 3,
+    STICKY_SAUCE: 5
+};
+
+/**
+ * @brief Checks whether a value is a type of terrain.
+ *
+ * @param {unknown} value - The value to check.
+ * @return {boolean} True if the value is a type of terrain.
+ */
+const isTerrainType = (value: unknown): value is TerrainType =>
+    typeof value === "string" && Object.prototype.hasOwnProperty.call(terrainCosts, value);
+
+/**
+ * @brief Returns the terrain of a cell.
+ *
+ * @param {List<TerrainCell>} terrain - The cells of the world that are not floor.
+ * @param {Position} pos - The position of the cell.
+ * @return {TerrainType} The terrain of the cell, FLOOR if it is not listed.
+ */
+function getTerrainAt(terrain: List<TerrainCell>, pos: Position): TerrainType {
+    if (isEmpty(terrain))
+        return "FLOOR";
+    if (positionEquals(head(terrain).position, pos))
+        return head(terrain).type;
+    return getTerrainAt(tail(terrain), pos);
+}
+
+/**
+ * @brief Returns the cost of entering a cell.
+ *
+ * @param {List<TerrainCell>} terrain - The cells of the world that are not floor.
+ * @param {Position} pos - The position of the cell.
+ * @return {number} The cost of the terrain of the cell.
+ */
+const getTerrainCost = (terrain: List<TerrainCell>, pos: Position): number => terrainCosts[getTerrainAt(terrain, pos)];
+
+export {
+    TerrainType,
+    TerrainCell,
+    terrainCosts,
+    isTerrainType,
+    getTerrainAt,
+    getTerrainCost
+};
@@ -0,0 +1,103 @@
+/**
+ * @file waves.ts
+ * @brief This file contains the waves of enemies of a level and the schedule the spawners follow.
+ */
+
+import { World } from "./world";
+import { List, arrayToList, cons, emptyList, head, isEmpty, tail } from "../common/list";
+import { Position, positionEquals } from "../common/position";
+
+/**
+ * @brief A wave of enemies declared in a level.
+ *
+ * @property {number} turn - The turn the first enemy of the wave spawns (the first turn of a game is 1).
+ * @property {Position} spawner - The position of the spawner emitting the wave.
+ * @property {string} template - The name of the template of the enemies.
+ * @property {number} count - The number of enemies of the wave.
+ * @property {number} delay - The number of turns between two enemies of the wave.
+ */
+type Wave = {
+    readonly turn: number;
+    readonly spawner: Position;
+    readonly template: string;
+    readonly count: number;
+    readonly delay: number;
+}
+
+/**
+ * @brief An enemy waiting to be spawned.
+ *
+ * @property {number} turn - The turn from which the enemy can spawn.
+ * @property {Position} spawner - The position of the spawner emitting the enemy.
+ * @property {string} template - The name of the template of the enemy.
+ */
+type ScheduledSpawn = {
+    readonly turn: number;
+    readonly spawner: Position;
+    readonly template: string;
+}
+
+/**
+ * @brief Expands waves into the list of the enemies to spawn, sorted by turn.
+ *
+ * @param {Wave[]} waves - The waves of a level.
+ * @return {List<ScheduledSpawn>} The enemies to spawn.
+ */
+function scheduleWaves(waves: Wave[]): List<ScheduledSpawn> {
+    return arrayToList(waves
+        .flatMap((wave) => Array.from({ length: wave.count }, (_, i) => ({ turn: wave.turn + i * wave.delay, spawner: wave.spawner, template: wave.template })))
+        .sort((s1, s2) => s1.turn - s2.turn));
+}
+
+/**
+ * @brief Returns the enemies a spawner has to emit during the current turn, in the order of the schedule.
+ *
+ * @param {World} aWorld - The world holding the schedule.
+ * @param {Position} spawner - The position of the spawner.
+ * @return {List<ScheduledSpawn>} The due enemies of the spawner, empty if there is none.
+ */
+function getDueSpawns(aWorld: World, spawner: Position): List<ScheduledSpawn> {
+    function getDueSpawnsRec(spawns: List<ScheduledSpawn>): List<ScheduledSpawn> {
+        if (isEmpty(spawns) || head(spawns).turn > aWorld.turn)
+            return emptyList();
+        if (positionEquals(head(spawns).spawner, spawner))
+            return cons(head(spawns), getDueSpawnsRec(tail(spawns)));
+        return getDueSpawnsRec(tail(spawns));
+    }
+    return getDueSpawnsRec(aWorld.spawns);
+}
+
+/**
+ * @brief Removes the next due enemy of a spawner from the schedule, once it has spawned.
+ *
+ * @param {World} aWorld - The world holding the schedule.
+ * @param {Position} spawner - The position of the spawner.
+ * @return {World} A new world without the spawned enemy in its schedule.
+ */
+function consumeSpawn(aWorld: World, spawner: Position): World {
+    function consumeSpawnRec(spawns: List<ScheduledSpawn>): List<ScheduledSpawn> {
+        if (isEmpty(spawns) || head(spawns).turn > aWorld.turn)
+            return spawns;
+        if (positionEquals(head(spawns).spawner, spawner))
+            return tail(spawns);
+        return cons(head(spawns), consumeSpawnRec(tail(spawns)));
+    }
+    return { ...aWorld, spawns: consumeSpawnRec(aWorld.spawns) };
+}
+
+/**
+ * @brief Checks whether every enemy of every wave has spawned.
+ *
+ * @param {World} aWorld - The world holding the schedule.
+ * @return {boolean} True if no enemy is waiting to be spawned.
+ */
+const wavesAreExhausted = (aWorld: World): boolean => isEmpty(aWorld.spawns);
+
+export {
+    Wave,
+    ScheduledSpawn,
+    scheduleWaves,
+    getDueSpawns,
+    consumeSpawn,
+    wavesAreExhausted
+};
@@ -3,11 +3,15 @@
  * @brief This file contains the definition of the World type which represents the game world.
  */
 
-import { createGraph, Graph } from "../common/graph";
-import { List, appendList, emptyList, head, isEmpty, tail } from "../common/list";
+import { Connectivity, createGraph, Graph } from "../common/graph";
+import { List, arrayToList, emptyList, head, isEmpty, listToArray, tail } from "../common/list";
 import { createEdge } from "../common/edge";
 import { Vertex, addEdge, createVertex } from "../common/vertex";
-import { createPosition, Position, positionEquals } from "../common/position";
+import { createPosition, Position, positionEquals, positionKey } from "../common/position";
+import { Rng, createRng, nextRandom } from "../common/random";
+import { ScheduledSpawn } from "./waves";
+import { TerrainCell, getTerrainCost } from "./terrain";
+import { GameEvent } from "./events";
 
 /**
  * @brief The World type defines the game world, consisting of a graph and a size.
@@ -15,24 +19,54 @@ import { createPosition, Position, positionEquals } from "../common/position";
  * @typedef {Object} World
  * @property {Graph} graph - The graph representing the world.
  * @property {Position} size - The size of the world.
+ * @property {Rng} rng - The random number generator of the game, advanced after every phase.
+ * @property {number} turn - The current turn of the game, 0 before the first turn.
+ * @property {List<ScheduledSpawn>} spawns - The enemies of the waves still waiting to be spawned.
+ * @property {number} balance - The money of the player.
+ * @property {List<TerrainCell>} terrain - The cells of the world that are not floor.
+ * @property {List<GameEvent>} events - The events emitted by the phases of the current turn, the last emitted first (see getEvents).
+ * @property {List<string>} phases - The names of the phases of a turn in the order they are played, empty for the default order.
  */
 type World = {
     graph: Graph;
     size: Position;
+    rng: Rng;
+    turn: number;
+    spawns: List<ScheduledSpawn>;
+    balance: number;
+    terrain: List<TerrainCell>;
+    events: List<GameEvent>;
+    phases: List<string>;
 }
 
 /**
- * @brief Creates a list of vertexes in the world recursively.
+ * @brief The options used to build a world.
+ *
+ * @typedef {Object} WorldOptions
+ * @property {number} seed - The seed of the random number generator of the game (0 by default).
+ * @property {TerrainCell[]} terrain - The cells of the world that are not floor (none by default).
+ * @property {Connectivity} connectivity - The number of neighbours of a cell: 4, or 8 to move diagonally (4 by default).
+ * @property {string[]} phases - The names of the phases of a turn in the order they are played (the default order by default).
+ */
+type WorldOptions = {
+    seed?: number;
+    terrain?: TerrainCell[];
+    connectivity?: Connectivity;
+    phases?: string[];
+}
+
+/**
+ * @brief Creates the list of vertexes of the world, from the last position of the world back to the current one.
  *
  * @param {Position} currentPos - The current position.
  * @param {Position} size - The size of the world.
  * @returns {List<Vertex>} The list of vertexes in the world.
  */
 function createVertexesRec(currentPos: Position, size: Position): List<Vertex> {
-    if (positionEquals(currentPos, size))
-        return appendList(emptyList(), createVertex(currentPos, emptyList()));
-    const nextPos = currentPos.x >= size.x ? createPosition(0, currentPos.y + 1) : createPosition(currentPos.x + 1, currentPos.y);
-    return appendList(createVertexesRec(nextPos, size), createVertex(currentPos, undefined));
+    const [width, first] = [size.x + 1, currentPos.y * (size.x + 1) + currentPos.x];
+    const count = size.y * width + size.x - first + 1;
+    const positions = Array.from({ length: count }, (_, i) => createPosition((first + i) % width, Math.floor((first + i) / width)));
+    return arrayToList(positions.reverse().map((pos) => createVertex(pos, emptyList())));
 }
 
 /**
@@ -43,51 +77,62 @@ function createVertexesRec(currentPos: Position, size: Position): List<Vertex> {
  * @returns {Vertex} The vertex with the specified position.
  */
 function getVertexByPos(vertexes: List<Vertex>, pos: Position): Vertex {
-    if (isEmpty(vertexes))
-        return createVertex(createPosition(-1, -1), undefined);
-    if (positionEquals(head(vertexes).pos, pos))
-        return head(vertexes);
-    return getVertexByPos(tail(vertexes), pos);
+    for (let cursor = vertexes; !isEmpty(cursor); cursor = tail(cursor))
+        if (positionEquals(head(cursor).pos, pos))
+            return head(cursor);
+    return createVertex(createPosition(-1, -1), undefined);
 }
 
+/**
+ * @brief The offsets of the orthogonal neighbours of a cell, then of its diagonal neighbours.
+ */
+const neighborOffsets: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [1, -1], [-1, 1], [1, 1]];
+
 /**
  * @brief Adds edges to vertices in a graph to create a grid structure
  *
+ * A diagonal edge weighs √2 times the weight of the position it leads to.
+ *
  * @param vertexes A list of vertices representing a grid
  * @param size The size of the grid
- * @return A new list of vertices with edges added between them
+ * @param weightOf The weight of the edges leading to a position (1 by default)
+ * @param connectivity The number of neighbours of a vertex: 4 orthogonal ones, or 8 with the diagonal ones (4 by default)
+ * @return A new list of vertices with edges added between them, in the reverse order of `vertexes`
  */
-function addEdgesToGraph(vertexes: List<Vertex>, size: Position): List<Vertex> {
-    /**
-     * @brief Recursively adds edges to vertices
-     */
-    function addEdgesToGraphRec(cursor: List<Vertex>): List<Vertex> {
-        if (isEmpty(cursor))
-            return emptyList();
-        let vertex = head(cursor);
-        if (vertex.pos.x > 0)
-            vertex = addEdge(vertex, createEdge(1, getVertexByPos(vertexes, createPosition(vertex.pos.x - 1, vertex.pos.y))));
-        if (vertex.pos.x < size.x)
-            vertex = addEdge(vertex, createEdge(1, getVertexByPos(vertexes, createPosition(vertex.pos.x + 1, vertex.pos.y))));
-        if (vertex.pos.y > 0)
-            vertex = addEdge(vertex, createEdge(1, getVertexByPos(vertexes, createPosition(vertex.pos.x, vertex.pos.y - 1))));
-        if (vertex.pos.y < size.y)
-            vertex = addEdge(vertex, createEdge(1, getVertexByPos(vertexes, createPosition(vertex.pos.x, vertex.pos.y + 1))));
-        return appendList(addEdgesToGraphRec(tail(cursor)), vertex);
-    }
-    return addEdgesToGraphRec(vertexes);
+function addEdgesToGraph(vertexes: List<Vertex>, size: Position, weightOf: (pos: Position) => number = () => 1, connectivity: Connectivity = 4): List<Vertex> {
+    const byPos = new Map(listToArray(vertexes).map((vertex) => [positionKey(vertex.pos), vertex]));
+    const withEdges = listToArray(vertexes).map((cell) => neighborOffsets.slice(0, connectivity).reduce((vertex, [dx, dy]) => {
+        const pos = createPosition(vertex.pos.x + dx, vertex.pos.y + dy);
+        if (pos.x < 0 || pos.x > size.x || pos.y < 0 || pos.y > size.y)
+            return vertex;
+        const weight = dx !== 0 && dy !== 0 ? Math.SQRT2 * weightOf(pos) : weightOf(pos);
+        return addEdge(vertex, createEdge(weight, <Vertex>byPos.get(positionKey(pos))));
+    }, cell));
+    return arrayToList(withEdges.reverse());
 }
 
 /**
  * @brief Creates a world of the given size
  *
+ * The weight of an edge is the cost of the terrain of the cell it leads to.
+ *
  * @param size The size of the world
+ * @param options The options of the world (seed, terrain, connectivity, phases...)
  * @return A new world of the given size
  */
-function buildWorld(size: Position): World {
+function buildWorld(size: Position, options: WorldOptions = {}): World {
+    const terrain = arrayToList(options.terrain ?? []);
+    const connectivity = options.connectivity ?? 4;
     return <World>{
-        graph: createGraph(addEdgesToGraph(createVertexesRec(createPosition(0, 0), size), size), size.x * size.y),
-        size: size
+        graph: createGraph(addEdgesToGraph(createVertexesRec(createPosition(0, 0), size), size, (pos) => getTerrainCost(terrain, pos), connectivity), size.x * size.y, connectivity),
+        size: size,
+        rng: createRng(options.seed ?? 0),
+        turn: 0,
+        spawns: emptyList(),
+        balance: 0,
+        terrain: terrain,
+        events: emptyList(),
+        phases: arrayToList(options.phases ?? [])
     };
 }
 
@@ -112,11 +157,40 @@ function getDimensionWorld(world: World): Position {
     return world.size;
 }
 
+/**
+ * @brief Returns the random number generator of the world.
+ *
+ * @param {World} world The world to get the generator of.
+ * @returns {Rng} The random number generator of the world.
+ */
+const getWorldRng = (world: World): Rng => world.rng;
+
+/**
+ * @brief Returns a new world whose random number generator moved one step forward.
+ *
+ * @param {World} world The world to advance the generator of.
+ * @returns {World} A new world with the next state of the generator.
+ */
+const advanceWorldRng = (world: World): World => ({ ...world, rng: nextRandom(world.rng)[1] });
+
+/**
+ * @brief Returns a new world at the next turn.
+ *
+ * @param {World} world The world to move to the next turn.
+ * @returns {World} A new world whose turn is the next one, with no event yet.
+ */
+const nextTurn = (world: World): World => ({ ...world, turn: world.turn + 1, events: emptyList() });
+
 export {
     World,
+    WorldOptions,
     buildWorld,
     isInWorld,
     getDimensionWorld,
+    getWorldRng,
+    advanceWorldRng,
+    nextTurn,
+    neighborOffsets,
     getVertexByPos,
     addEdgesToGraph,
     createVertexesRec
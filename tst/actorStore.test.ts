@@ -0,0 +1,55 @@
+import { describe, expect, test } from '@jest/globals';
+import { Actor, getActorById, setActorPosition, setLifePoint } from '../src/actors/actors';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { addStoredActor, createActorStore, getStoreSize, getStoredActor, getStoredActorsAtPos, getStoredActorsByType, removeStoredActor, replaceStoredActor, storeToList } from '../src/actors/actorStore';
+import { createPosition } from '../src/common/position';
+import { arrayToList, listToArray } from '../src/common/list';
+
+const actor = (template: string, x: number, y: number): Actor => createActorFromTemplate(template, createPosition(x, y));
+const ids = (actors: Actor[]) => actors.map((anActor) => anActor.id);
+
+describe('Actor store tests', () => {
+    const goal = actor("linguini", 4, 4);
+    const remy = actor("remyWithSpoon", 1, 1);
+    const other = actor("remyWithSpoon", -2, 3);
+    const wall = actor("worktop", 1, 1);
+    const actors = arrayToList([goal, remy, other, wall]);
+    const store = createActorStore(actors);
+
+    test('finds the actors by id, by position and by type in the order of the list', () => {
+        expect(listToArray(storeToList(store))).toEqual(listToArray(actors));
+        expect(getStoreSize(store)).toBe(4);
+        expect(getStoredActor(store, other.id)).toBe(other);
+        expect(getStoredActor(store, -1)).toBeUndefined();
+        expect(ids(listToArray(getStoredActorsAtPos(store, createPosition(1, 1))))).toEqual([remy.id, wall.id]);
+        expect(ids(listToArray(getStoredActorsAtPos(store, createPosition(-2, 3))))).toEqual([other.id]);
+        expect(ids(listToArray(getStoredActorsByType(store, "ENEMY")))).toEqual([remy.id, other.id]);
+        expect(listToArray(getStoredActorsByType(store, "TOWER"))).toEqual([]);
+    });
+
+    test('replaces and removes the actors in place and adds them at the end, without changing the store', () => {
+        const moved = setActorPosition(remy, createPosition(2, 1));
+        const hole = actor("hole", 0, 0);
+        const changed = removeStoredActor(replaceStoredActor(addStoredActor(store, hole), moved), other.id);
+        expect(listToArray(storeToList(changed))).toEqual([goal, moved, wall, hole]);
+        expect(ids(listToArray(getStoredActorsAtPos(changed, createPosition(1, 1))))).toEqual([wall.id]);
+        expect(ids(listToArray(getStoredActorsAtPos(changed, createPosition(2, 1))))).toEqual([remy.id]);
+        expect(ids(listToArray(getStoredActorsByType(changed, "ENEMY")))).toEqual([remy.id]);
+        expect(getStoredActor(changed, other.id)).toBeUndefined();
+        expect(getStoredActor(store, remy.id)).toBe(remy);
+        expect(getStoreSize(store)).toBe(4);
+    });
+
+    test('ignores the missing actors and refuses the same id twice', () => {
+        const stranger = setLifePoint(actor("remyWithSpoon", 0, 0), 1);
+        expect(replaceStoredActor(store, stranger)).toBe(store);
+        expect(removeStoredActor(store, stranger.id)).toBe(store);
+        expect(getActorById(storeToList(store), stranger.id)).toBeUndefined();
+        expect(() => addStoredActor(store, setLifePoint(remy, 1))).toThrow(`Actor ${remy.id} is already in the store`);
+    });
+
+    test('gives the same list of actors for the same store', () => {
+        expect(storeToList(store)).toBe(storeToList(store));
+        expect(storeToList(replaceStoredActor(store, setLifePoint(remy, 1)))).not.toBe(storeToList(store));
+    });
+});
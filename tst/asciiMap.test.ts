@@ -0,0 +1,55 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { asciiMapToLevel, getAsciiMap, loadAsciiMap } from '../src/world/asciiMap';
+import { loadLevel } from '../src/world/level';
+import { kitchen } from '../src/world/kitchen';
+import { ActorStore, storeToList } from '../src/actors/actorStore';
+import { getTemplateName } from '../src/actors/templateRegistry';
+import { createPosition, positionEquals } from '../src/common/position';
+import { listToArray } from '../src/common/list';
+import { getBoardString } from '../src/graphics/consoleGraphics';
+
+/**
+ * The template and the position of every actor of a store, sorted.
+ */
+const actorsOf = (actors: ActorStore): string[] =>
+    listToArray(storeToList(actors)).map((anActor) => `${getTemplateName(anActor)} (${anActor.position.x}, ${anActor.position.y})`).sort();
+
+describe('ASCII map tests', () => {
+    describe('asciiMapToLevel', () => {
+        test('reads the size and the actors of the grid, the first line being the top of the world', () => {
+            const level = asciiMapToLevel("\n888\n*36\nH0 \n");
+            expect(level.size).toEqual(createPosition(2, 2));
+            expect(level.walls.map((actor) => actor.position)).toEqual([createPosition(0, 2), createPosition(1, 2), createPosition(2, 2)]);
+            expect(level.towers).toEqual([{ template: "gusteauWithPan", position: createPosition(1, 1) }]);
+            expect(level.goals).toEqual([{ template: "linguini", position: createPosition(2, 1) }]);
+            expect(level.spawners).toEqual([{ template: "hole", position: createPosition(0, 0) }]);
+            expect(level.enemies).toEqual([{ template: "remyWithSpoon", position: createPosition(1, 0) }]);
+        });
+
+        test('ends short lines with empty cells', () => {
+            expect(asciiMapToLevel("8**\n8").size).toEqual(createPosition(2, 1));
+        });
+
+        test('refuses characters out of the legend and empty maps', () => {
+            expect(() => asciiMapToLevel("88\n8x")).toThrow('Unknown character "x" at line 2, column 2');
+            expect(() => asciiMapToLevel("\n \n")).toThrow("Empty map");
+        });
+    });
+
+    describe('loadAsciiMap', () => {
+        test('loads a board printed by the console back with the same actors', () => {
+            const level = { ...kitchen, enemies: kitchen.enemies.filter((enemy) => !positionEquals(enemy.position, createPosition(0, 5))) };
+            const [world, actors] = loadLevel(level);
+            const [mapWorld, mapActors] = loadAsciiMap(getAsciiMap(world, actors));
+            expect(getBoardString(mapWorld, mapActors)).toBe(getBoardString(world, actors));
+            expect(actorsOf(mapActors)).toEqual(actorsOf(actors));
+        });
+
+        test('refuses to print a map of a board whose cells hold several actors', () => {
+            const [world, actors] = loadLevel(kitchen);
+            expect(getBoardString(world, actors)).toBe(readFileSync("levels/kitchen.txt", "utf-8"));
+            expect(() => getAsciiMap(world, actors)).toThrow("A map holds one actor per cell:\n(0, 5) holds hole, remyWithSpoon");
+        });
+    });
+});
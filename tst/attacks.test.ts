@@ -0,0 +1,58 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { Actor } from '../src/actors/actors';
+import { createActorStore, emptyActorStore, getStoredActor } from '../src/actors/actorStore';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { chainAttack, ringAttack, splashAttack } from '../src/actors/attacks';
+import { setTargeting } from '../src/actors/targeting';
+import { computePhases, Phase } from '../src/engine/phases';
+import { createPosition } from '../src/common/position';
+import { arrayToList, listToArray } from '../src/common/list';
+
+const world = buildWorld(createPosition(8, 8));
+const actor = (template: string, x: number, y: number): Actor => createActorFromTemplate(template, createPosition(x, y));
+
+/**
+ * A tower at (4, 4) aiming at its nearest enemy (5, 4), with enemies around.
+ */
+const tower = setTargeting(actor("gusteauWithPan", 4, 4), "NEAREST");
+const first = actor("remyWithSpoon", 5, 4);
+const beside = actor("remyWithSpoon", 6, 4);
+const behind = actor("remyWithSpoon", 7, 4);
+const far = actor("remyWithSpoon", 1, 1);
+const actors = arrayToList([tower, first, beside, behind, far]);
+
+const hits = (attack: ReturnType<typeof ringAttack>) =>
+    listToArray(attack(tower, world, actors)).map((hit) => [hit.id, hit.damage]);
+
+describe('Attacks tests', () => {
+    test('a splash attack hits the enemies around the impact with a falling damage', () => {
+        expect(hits(splashAttack({ range: 3, damage: 30, radius: 1 }))).toEqual(expect.arrayContaining([[first.id, 30], [beside.id, 15]]));
+        expect(hits(splashAttack({ range: 3, damage: 30, radius: 1 }))).toHaveLength(2);
+        expect(hits(splashAttack({ range: 3, damage: 30, radius: 2 }))).toEqual(expect.arrayContaining([[first.id, 30], [beside.id, 20], [behind.id, 10]]));
+    });
+
+    test('a ring attack hits every enemy in range', () => {
+        expect(hits(ringAttack({ range: 2, damage: 15 }))).toEqual(expect.arrayContaining([[first.id, 15], [beside.id, 15]]));
+        expect(hits(ringAttack({ range: 2, damage: 15 }))).toHaveLength(2);
+    });
+
+    test('a chain attack bounces to the nearest enemies with a decaying damage', () => {
+        expect(hits(chainAttack({ range: 3, damage: 30, bounces: 3, bounceRange: 2, decay: 0.5 })))
+            .toEqual([[first.id, 30], [beside.id, 15], [behind.id, 8]]);
+        expect(hits(chainAttack({ range: 3, damage: 30, bounces: 1, bounceRange: 2, decay: 0.5 })))
+            .toEqual([[first.id, 30], [beside.id, 15]]);
+    });
+
+    test('the attacks hit nothing without enemy in range and apply their effect to every hit enemy', () => {
+        expect(listToArray(splashAttack({ range: 3, damage: 30, radius: 1 })(tower, world, arrayToList([tower, far])))).toEqual([]);
+        expect(listToArray(ringAttack({ range: 2, damage: 15, effect: { kind: "SLOW", turns: 1 } })(tower, world, actors)).every((hit) => hit.effect?.kind === "SLOW")).toBe(true);
+    });
+
+    test('the attack resolver resolves the attacks hitting several enemies', () => {
+        const attack = <Phase>listToArray(computePhases(world, emptyActorStore())).find((aPhase) => aPhase.funcName === "attack");
+        const proposal = ringAttack({ range: 2, damage: 15 })(tower, world, actors);
+        const [, resolved] = attack.resolver(world, createActorStore(actors), arrayToList([proposal, undefined, undefined, undefined, undefined]));
+        expect([first, beside, behind].map((enemy) => getStoredActor(resolved, enemy.id)?.health)).toEqual([185, 185, 200]);
+    });
+});
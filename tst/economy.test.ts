@@ -0,0 +1,45 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { canAfford, earn, getBounty, getCost, spend } from '../src/world/economy';
+import { createPosition } from '../src/common/position';
+import { arrayToList, cons, emptyList, listToArray } from '../src/common/list';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { createActorStore } from '../src/actors/actorStore';
+import { computePhases } from '../src/engine/phases';
+
+const world = earn(buildWorld(createPosition(4, 4)), 60);
+
+describe('Economy tests', () => {
+    describe('spend', () => {
+        test('takes money from the balance', () => {
+            expect(canAfford(world, 60)).toBe(true);
+            expect(spend(world, 50).balance).toBe(10);
+        });
+
+        test('refuses to spend more than the balance', () => {
+            expect(canAfford(world, 61)).toBe(false);
+            expect(() => spend(world, 61)).toThrow("Insufficient funds: 61 needed, 60 available");
+        });
+    });
+
+    describe('templates', () => {
+        test('give a cost to the towers and a bounty to the enemies', () => {
+            expect(getCost(createActorFromTemplate("gusteauWithPan", createPosition(0, 0)))).toBe(50);
+            expect(getBounty(createActorFromTemplate("remyWithSpoon", createPosition(0, 0)))).toBe(10);
+            expect(getCost(createActorFromTemplate("worktop", createPosition(0, 0)))).toBe(0);
+        });
+    });
+
+    describe('attack resolver', () => {
+        test('pays the bounty of the killed enemies only', () => {
+            const enemy = createActorFromTemplate("remyWithSpoon", createPosition(0, 0));
+            const wounded = createActorFromTemplate("remyThrowingCheese", createPosition(1, 0));
+            const tower = createActorFromTemplate("gusteauWithPan", createPosition(2, 0));
+            const actors = createActorStore(arrayToList([enemy, wounded, tower]));
+            const attack = listToArray(computePhases(world, actors)).find((aPhase) => aPhase.funcName === "attack");
+            const proposals = arrayToList([undefined, undefined, cons({ id: enemy.id, damage: 1000 }, cons({ id: wounded.id, damage: 1 }, cons({ id: tower.id, damage: 1000 }, emptyList())))]);
+            const [newWorld] = attack!.resolver(world, actors, proposals);
+            expect(newWorld.balance).toBe(70);
+        });
+    });
+});
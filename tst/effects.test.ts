@@ -0,0 +1,55 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { addEffect, effectsToString, getPoisonDamage, hasEffect, tickEffects } from '../src/actors/effects';
+import { Actor, setActorPosition } from '../src/actors/actors';
+import { createActorStore, emptyActorStore, getStoreSize, getStoredActor } from '../src/actors/actorStore';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { computePhases, Phase } from '../src/engine/phases';
+import { createPosition } from '../src/common/position';
+import { arrayToList, cons, emptyList, listToArray } from '../src/common/list';
+
+const world = buildWorld(createPosition(4, 4));
+const remy = (): Actor => createActorFromTemplate("remyWithSpoon", createPosition(0, 0));
+const getPhase = (funcName: string): Phase => <Phase>listToArray(computePhases(world, emptyActorStore())).find((aPhase) => aPhase.funcName === funcName);
+
+describe('Status effects tests', () => {
+    describe('effects of an actor', () => {
+        test('replace the effect of the same kind and expire', () => {
+            const poisoned = addEffect(addEffect(addEffect(remy(), { kind: "POISON", turns: 1, damage: 5 }), { kind: "SLOW", turns: 2 }), { kind: "POISON", turns: 3, damage: 7 });
+            expect(effectsToString(poisoned)).toBe("poison 3, slow 2");
+            expect(getPoisonDamage(poisoned)).toBe(7);
+            const later = tickEffects(tickEffects(poisoned));
+            expect(effectsToString(later)).toBe("poison 1");
+            expect(hasEffect(later, "SLOW")).toBe(false);
+            expect(hasEffect(tickEffects(later), "POISON")).toBe(false);
+        });
+    });
+
+    describe('resolvers', () => {
+        test('the attack resolver applies the effect of an attack', () => {
+            const target = remy();
+            const [, actors] = getPhase("attack").resolver(world, createActorStore(arrayToList([target])), cons(cons({ id: target.id, damage: 1, effect: { kind: "FREEZE", turns: 1 } }, emptyList()), emptyList()));
+            expect(hasEffect(<Actor>getStoredActor(actors, target.id), "FREEZE")).toBe(true);
+        });
+
+        test('the heal resolver deals the poison damage and pays the bounty of the killed enemies', () => {
+            const poisoned = addEffect(remy(), { kind: "POISON", turns: 2, damage: 30 });
+            const dying = { ...addEffect(remy(), { kind: "POISON", turns: 2, damage: 30 }), health: 20 };
+            const [newWorld, actors] = getPhase("heal").resolver(world, createActorStore(arrayToList([poisoned, dying])), arrayToList([undefined, undefined]));
+            expect(getStoreSize(actors)).toBe(1);
+            expect(getStoredActor(actors, poisoned.id)?.health).toBe(170);
+            expect(effectsToString(<Actor>getStoredActor(actors, poisoned.id))).toBe("poison 1");
+            expect(newWorld.balance).toBe(10);
+        });
+
+        test('the move resolver holds frozen actors, and slowed actors every other turn', () => {
+            const frozen = addEffect(remy(), { kind: "FREEZE", turns: 1 });
+            const slowed = addEffect(remy(), { kind: "SLOW", turns: 2 });
+            const move = (anActor: Actor, turn: number) =>
+                getStoredActor(getPhase("move").resolver({ ...world, turn: turn }, createActorStore(arrayToList([anActor])), arrayToList([setActorPosition(anActor, createPosition(1, 0))]))[1], anActor.id)?.position;
+            expect(move(frozen, 2)).toEqual(createPosition(0, 0));
+            expect(move(slowed, 1)).toEqual(createPosition(0, 0));
+            expect(move(slowed, 2)).toEqual(createPosition(1, 0));
+        });
+    });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld, World } from '../src/world/world';
+import { createPosition } from '../src/common/position';
+import { loadLevel } from '../src/world/level';
+import { kitchen } from '../src/world/kitchen';
+import { ActorStore, storeToList } from '../src/actors/actorStore';
+import { computePhases } from '../src/engine/phases';
+import { playTurn } from '../src/engine/engine';
+
+/**
+ * Plays a few turns of the default game and returns the final state.
+ */
+function playGame(seed: number, turns: number): [World, ActorStore] {
+    let [world, actors] = loadLevel(kitchen, { seed: seed });
+    const phases = computePhases(world, actors);
+    for (let i = 0; i < turns; i++)
+        [world, actors] = playTurn(world, actors, phases);
+    return [world, actors];
+}
+
+describe('Engine tests', () => {
+    describe('playTurn', () => {
+        test('plays the same game for the same seed', () => {
+            const [world1, actors1] = playGame(42, 10);
+            const [world2, actors2] = playGame(42, 10);
+            expect(world1.rng).toEqual(world2.rng);
+            expect(JSON.stringify(storeToList(actors1))).toBe(JSON.stringify(storeToList(actors2)));
+        });
+
+        test('advances the generator of the world', () => {
+            const [world] = playGame(42, 1);
+            expect(world.rng).not.toEqual(buildWorld(createPosition(10, 10), { seed: 42 }).rng);
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld, nextTurn } from '../src/world/world';
+import { Actor, setLifePoint } from '../src/actors/actors';
+import { addEffect } from '../src/actors/effects';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { createActorStore, emptyActorStore } from '../src/actors/actorStore';
+import { computePhases, Phase } from '../src/engine/phases';
+import { AttackProposal, HealProposal } from '../src/actors/proposals';
+import { createEventBus } from '../src/engine/events';
+import { GameEvent, emit, getEvents } from '../src/world/events';
+import { createPosition } from '../src/common/position';
+import { arrayToList, cons, emptyList, isEmpty, listToArray } from '../src/common/list';
+
+const world = { ...buildWorld(createPosition(4, 4)), turn: 2 };
+const getPhase = (funcName: string) => <Phase>listToArray(computePhases(world, emptyActorStore())).find((aPhase) => aPhase.funcName === funcName);
+const actor = (template: string, x: number, y: number): Actor => createActorFromTemplate(template, createPosition(x, y));
+
+describe('Events tests', () => {
+    describe('event bus', () => {
+        const moved: GameEvent = { kind: "ActorMoved", turn: 1, source: 3, from: createPosition(0, 0), to: createPosition(1, 0) };
+        const killed: GameEvent = { kind: "ActorKilled", turn: 1, source: 4, target: 3, name: "Remy with a Spoon" };
+
+        test('keeps the events of the current turn in the world, in order', () => {
+            const aWorld = emit(emit(world, moved), killed);
+            expect(listToArray(getEvents(aWorld))).toEqual([moved, killed]);
+            expect(isEmpty(getEvents(nextTurn(aWorld)))).toBe(true);
+        });
+
+        test('calls the listeners of every event or of a kind of events until they unsubscribe', () => {
+            const bus = createEventBus();
+            const all: GameEvent[] = [];
+            const names: string[] = [];
+            const unsubscribe = bus.subscribe((event) => all.push(event));
+            bus.subscribe("ActorKilled", (event) => names.push(event.name));
+            bus.publish(arrayToList([moved, killed]));
+            unsubscribe();
+            bus.publish(arrayToList([killed]));
+            expect(all).toEqual([moved, killed]);
+            expect(names).toEqual(["Remy with a Spoon", "Remy with a Spoon"]);
+        });
+    });
+
+    describe('resolvers', () => {
+        test('the attack resolver emits the damage and the kills, with the attacker as source', () => {
+            const tower = actor("gusteauWithPan", 0, 0);
+            const wounded = actor("remyWithSpoon", 1, 0);
+            const dying = setLifePoint(actor("remyWithSpoon", 0, 1), 10);
+            const proposal = <AttackProposal>arrayToList([{ id: wounded.id, damage: 20 }, { id: dying.id, damage: 20 }]);
+            const [newWorld] = getPhase("attack").resolver(world, createActorStore(arrayToList([tower, wounded, dying])), arrayToList([proposal, undefined, undefined]));
+            expect(listToArray(getEvents(newWorld))).toEqual([
+                { kind: "ActorDamaged", turn: 2, source: tower.id, target: dying.id, damage: 20, health: -10 },
+                { kind: "ActorKilled", turn: 2, source: tower.id, target: dying.id, name: "Remy with a Spoon" },
+                { kind: "ActorDamaged", turn: 2, source: tower.id, target: wounded.id, damage: 20, health: 180 }
+            ]);
+        });
+
+        test('the heal resolver emits the heals and the poison damage, with the poisoner as source', () => {
+            const tower = actor("gusteauWithPan", 0, 0);
+            const remy = addEffect(setLifePoint(actor("remyWithSpoon", 1, 0), 100), { kind: "POISON", turns: 2, damage: 30, source: tower.id });
+            const full = actor("remyWithSpoon", 0, 1);
+            const heal = (id: number) => <HealProposal>cons({ id: id, heal: 10 }, emptyList());
+            const [newWorld] = getPhase("heal").resolver(world, createActorStore(arrayToList([tower, remy, full])), arrayToList([undefined, heal(remy.id), heal(full.id)]));
+            expect(listToArray(getEvents(newWorld))).toEqual([
+                { kind: "ActorHealed", turn: 2, source: remy.id, target: remy.id, heal: 10, health: 110 },
+                { kind: "ActorDamaged", turn: 2, source: tower.id, target: remy.id, damage: 30, health: 80 }
+            ]);
+        });
+
+        test('the spawn and move resolvers emit the spawned and the moved actors', () => {
+            const hole = actor("hole", 0, 0);
+            const remy = actor("remyWithSpoon", 0, 0);
+            const [spawnWorld, actors] = getPhase("spawn").resolver(world, createActorStore(arrayToList([hole])), arrayToList([arrayToList([remy])]));
+            const [moveWorld] = getPhase("move").resolver(spawnWorld, actors, arrayToList([undefined, { ...remy, position: createPosition(1, 0) }]));
+            expect(listToArray(getEvents(moveWorld))).toEqual([
+                { kind: "ActorSpawned", turn: 2, source: hole.id, target: remy.id, name: "Remy with a Spoon", position: createPosition(0, 0) },
+                { kind: "ActorMoved", turn: 2, source: remy.id, from: createPosition(0, 0), to: createPosition(1, 0) }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld, World } from '../src/world/world';
+import { loadLevel } from '../src/world/level';
+import { storeToList } from '../src/actors/actorStore';
+import { kitchen } from '../src/world/kitchen';
+import { getFlowField, getFlowNext, getFlowSteps } from '../src/world/flowField';
+import { Actor, getActorsByType } from '../src/actors/actors';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { pathfinding } from '../src/common/graph';
+import { createPosition, Position } from '../src/common/position';
+import { List, arrayToList, head, listToArray } from '../src/common/list';
+
+const actor = (template: string, x: number, y: number): Actor => createActorFromTemplate(template, createPosition(x, y));
+
+/**
+ * Follows the flow field from a position until it stops.
+ */
+function walk(aWorld: World, actors: List<Actor>, from: Position): Position[] {
+    const next = getFlowNext(getFlowField(aWorld, actors), from);
+    return next ? [from, ...walk(aWorld, actors, next)] : [from];
+}
+
+/**
+ * Follows the first step of the path found by the pathfinding from each cell, as the enemies did before the flow field.
+ */
+function searchedWalk(aWorld: World, actors: List<Actor>, from: Position, goal: Position): Position[] {
+    const path = listToArray(pathfinding(from, goal, aWorld.graph, actors));
+    return path.length > 1 ? [from, ...searchedWalk(aWorld, actors, path[1].pos, goal)] : [from];
+}
+
+describe('Flow field tests', () => {
+    test('leads every cell to the closest goal around the walls', () => {
+        const world = buildWorld(createPosition(3, 2));
+        const actors = arrayToList([actor("linguini", 3, 0), actor("worktop", 2, 0), actor("worktop", 2, 1)]);
+        expect(walk(world, actors, createPosition(0, 0))).toEqual([[0, 0], [1, 0], [1, 1], [1, 2], [2, 2], [3, 2], [3, 1], [3, 0]].map(([x, y]) => createPosition(x, y)));
+        expect(getFlowSteps(getFlowField(world, actors), createPosition(0, 0))).toBe(7);
+        expect(getFlowSteps(getFlowField(world, actors), createPosition(3, 0))).toBe(0);
+    });
+
+    test('weighs the walks with the terrain and cuts no corner', () => {
+        const world = buildWorld(createPosition(2, 2), { terrain: [{ type: "STICKY_SAUCE", position: createPosition(1, 1) }], connectivity: 8 });
+        const actors = arrayToList([actor("linguini", 2, 2), actor("worktop", 1, 2)]);
+        expect(getFlowField(world, actors).costs[0]).toBeCloseTo(2 + Math.SQRT2);
+        expect(walk(world, actors, createPosition(0, 0))).toEqual([[0, 0], [1, 0], [2, 1], [2, 2]].map(([x, y]) => createPosition(x, y)));
+        expect(getFlowNext(getFlowField(world, actors), createPosition(1, 1))).toEqual(createPosition(2, 1));
+    });
+
+    test('keeps the actors that cannot reach a goal or stand out of the world in place', () => {
+        const world = buildWorld(createPosition(2, 0));
+        const actors = arrayToList([actor("linguini", 2, 0), actor("worktop", 1, 0)]);
+        expect(getFlowNext(getFlowField(world, actors), createPosition(0, 0))).toBeUndefined();
+        expect(getFlowSteps(getFlowField(world, actors), createPosition(0, 0))).toBe(Infinity);
+        expect(getFlowNext(getFlowField(world, actors), createPosition(-1, 0))).toBeUndefined();
+    });
+
+    test('is computed once for a list of actors', () => {
+        const world = buildWorld(createPosition(2, 2));
+        const actors = arrayToList([actor("linguini", 2, 2)]);
+        expect(getFlowField(world, actors)).toBe(getFlowField(world, actors));
+        expect(getFlowField(world, arrayToList(listToArray(actors)))).not.toBe(getFlowField(world, actors));
+    });
+
+    test('counts the steps of walks longer than the call stack', () => {
+        const world = buildWorld(createPosition(99999, 0));
+        const actors = arrayToList([actor("linguini", 99999, 0)]);
+        expect(getFlowSteps(getFlowField(world, actors), createPosition(0, 0))).toBe(99999);
+        expect(getFlowSteps(getFlowField(world, actors), createPosition(50000, 0))).toBe(49999);
+    });
+
+    test('walks as cheaply as the pathfinding elsewhere, with its own tie order', () => {
+        ([4, 8] as const).forEach((connectivity) => {
+            const world = buildWorld(createPosition(4, 4), { connectivity: connectivity });
+            const actors = arrayToList([actor("linguini", 4, 2), actor("worktop", 2, 2)]);
+            const cost = (path: Position[]) => path.slice(1).reduce((acc, pos, i) => acc + (pos.x !== path[i].x && pos.y !== path[i].y ? Math.SQRT2 : 1), 0);
+            listToArray(world.graph.vertexes).filter((vertex) => !(vertex.pos.x === 2 && vertex.pos.y === 2)).forEach((vertex) =>
+                expect(cost(walk(world, actors, vertex.pos))).toBeCloseTo(cost(listToArray(pathfinding(vertex.pos, createPosition(4, 2), world.graph, actors)).map((aVertex) => aVertex.pos))));
+        });
+        const world = buildWorld(createPosition(4, 4));
+        const actors = arrayToList([actor("linguini", 4, 2), actor("worktop", 2, 2)]);
+        expect(walk(world, actors, createPosition(0, 2))).toEqual([[0, 2], [1, 2], [1, 3], [2, 3], [3, 3], [4, 3], [4, 2]].map(([x, y]) => createPosition(x, y)));
+        expect(listToArray(pathfinding(createPosition(0, 2), createPosition(4, 2), world.graph, actors)).map((vertex) => vertex.pos))
+            .toEqual([[0, 2], [1, 2], [1, 1], [2, 1], [3, 1], [4, 1], [4, 2]].map(([x, y]) => createPosition(x, y)));
+    });
+
+    test('walks the enemies of the kitchen along the paths they took with the pathfinding', () => {
+        ([4, 8] as const).forEach((connectivity) => {
+            const [world, store] = loadLevel({ ...kitchen, connectivity: connectivity });
+            const actors = storeToList(store);
+            const goal = head(getActorsByType(actors, "GOAL"));
+            [...listToArray(getActorsByType(actors, "SPAWNER")), ...listToArray(getActorsByType(actors, "ENEMY"))].forEach((anActor) =>
+                expect(walk(world, actors, anActor.position)).toEqual(searchedWalk(world, actors, anActor.position, goal.position)));
+        });
+    });
+});
@@ -1,12 +1,16 @@
 import { describe, expect, test } from '@jest/globals';
 
-import { pathfindingRec, Graph, createGraph, isEmptyGraph, createEmptyGraph, pathfinding, Node, makeNode, extractClosestNode, reconstructPath, isNodeInList, updateNodeInList, removeNodeFromList } from '../src/common/graph';
-import { List, emptyList, cons, listEquals, readListAt, appendList, nil } from '../src/common/list';
+import { pathfindingRec, Graph, createGraph, isEmptyGraph, createEmptyGraph, pathfinding, Node, makeNode, gridDistance, cutsCorner, extractClosestNode, reconstructPath, isNodeInList, updateNodeInList, removeNodeFromList } from '../src/common/graph';
+import { List, emptyList, cons, listEquals, listToArray, readListAt, appendList, nil } from '../src/common/list';
 import { Edge, edgeEquals } from '../src/common/edge';
 import { Vertex, addEdge, createVertex } from "../src/common/vertex";
 import { createPosition, Position } from '../src/common/position';
 import { buildWorld, World } from '../src/world/world';
-import { initializeActors, Actor } from '../src/actors/actors';
+import { Actor } from '../src/actors/actors';
+import { loadLevel } from '../src/world/level';
+import { storeToList } from '../src/actors/actorStore';
+import { kitchen } from '../src/world/kitchen';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
 
 describe("Graph", () => {
     describe('isEmptyGraph', () => {
@@ -37,7 +41,7 @@ describe("Graph", () => {
             const v2: Vertex = { pos: { x: 8, y: 8 }, adj: emptyList() };
             const size : Position = createPosition(10, 10);
             const w : World = buildWorld(size);
-            const l : List<Actor> = initializeActors(buildWorld(size));
+            const l : List<Actor> = storeToList(loadLevel(kitchen)[1]);
             const path : List<Vertex> = pathfinding(v1.pos, v2.pos, w.graph, l);
             expect(pathfindingRec(emptyList(), emptyList(), createPosition(1, 1), w.graph, l)).toEqual(emptyList());
             //pathfinding(v1.pos, v2.pos, G, nil);
@@ -65,6 +69,42 @@ describe("Graph", () => {
             expect(n3.distance).toBe(0);
             expect(n3.parent).toBe(undefined);
         });
+        it('should add the weight of the edge to the distance', () => {
+            const n : Node = makeNode(undefined, v1, createPosition(2, 2));
+            expect(makeNode(n, v2, createPosition(2, 2), 5).distance).toBe(5);
+            expect(makeNode(n, v2, createPosition(2, 2), 5).score).toBe(7);
+            expect(makeNode(n, v2, createPosition(2, 2), 5, 8).score).toBeCloseTo(5 + Math.SQRT2);
+        });
+    });
+
+    describe('connectivity', () => {
+        const wall = (x: number, y: number): Actor => createActorFromTemplate("worktop", createPosition(x, y));
+        const path = (connectivity: 4 | 8, actors: List<Actor>) =>
+            listToArray(pathfinding(createPosition(0, 0), createPosition(3, 3), buildWorld(createPosition(3, 3), { connectivity: connectivity }).graph, actors));
+
+        test('links the 8 neighbours of a cell, diagonals weighing √2', () => {
+            const adj = buildWorld(createPosition(2, 2), { connectivity: 8 }).graph.vertexes;
+            const center = listToArray(adj).find((vertex) => vertex.pos.x === 1 && vertex.pos.y === 1);
+            expect(listToArray(center!.adj)).toHaveLength(8);
+            expect(listToArray(center!.adj).filter((edge) => edge.weight === Math.SQRT2)).toHaveLength(4);
+        });
+
+        test('walks diagonally with 8 neighbours only', () => {
+            expect(path(4, emptyList())).toHaveLength(7);
+            expect(path(8, emptyList())).toHaveLength(4);
+        });
+
+        test('does not cut the corners of walls', () => {
+            expect(cutsCorner(createPosition(0, 0), createPosition(1, 1), cons(wall(1, 0), emptyList()))).toBe(true);
+            expect(cutsCorner(createPosition(0, 0), createPosition(1, 0), cons(wall(1, 1), emptyList()))).toBe(false);
+            expect(path(8, cons(wall(1, 0), emptyList()))).toHaveLength(5);
+            expect(path(8, cons(wall(1, 0), cons(wall(0, 1), emptyList())))).toEqual([]);
+        });
+
+        test('uses the Manhattan distance with 4 neighbours and the octile distance with 8', () => {
+            expect(gridDistance(createPosition(0, 0), createPosition(3, 1), 4)).toBe(4);
+            expect(gridDistance(createPosition(0, 0), createPosition(3, 1), 8)).toBeCloseTo(2 + Math.SQRT2);
+        });
     });
 
     describe('extractClosestNode', () => {
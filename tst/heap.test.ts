@@ -0,0 +1,29 @@
+import { describe, expect, test } from '@jest/globals';
+import { createHeap, heapPop, heapPush, heapSize } from '../src/common/heap';
+import { createRng, randomInt } from '../src/common/random';
+
+describe('Heap tests', () => {
+    test('gives the elements back from the lowest to the greatest', () => {
+        const heap = createHeap((x: number, y: number) => x < y);
+        const numbers: number[] = [];
+        let rng = createRng(7);
+        for (let i = 0; i < 500; i++) {
+            const [n, nextRng] = randomInt(rng, 100);
+            numbers.push(n);
+            heapPush(heap, n);
+            rng = nextRng;
+        }
+        expect(heapSize(heap)).toBe(500);
+        expect(numbers.map(() => heapPop(heap))).toEqual([...numbers].sort((x, y) => x - y));
+        expect(heapPop(heap)).toBeUndefined();
+    });
+
+    test('follows the order it is given, pushes and pops mixed', () => {
+        const heap = createHeap(([cost1, id1]: [number, number], [cost2, id2]: [number, number]) => cost1 < cost2 || (cost1 === cost2 && id1 < id2));
+        [[2, 1], [1, 5], [1, 3]].forEach(([cost, id]) => heapPush(heap, [cost, id]));
+        expect(heapPop(heap)).toEqual([1, 3]);
+        heapPush(heap, [0, 9]);
+        expect([heapPop(heap), heapPop(heap), heapPop(heap)]).toEqual([[0, 9], [1, 5], [2, 1]]);
+        expect(heapSize(heap)).toBe(0);
+    });
+});
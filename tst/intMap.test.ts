@@ -0,0 +1,31 @@
+import { describe, expect, test } from '@jest/globals';
+import { emptyIntMap, intMapGet, intMapHas, intMapRemove, intMapSet, intMapValues } from '../src/common/intMap';
+
+describe('Int map tests', () => {
+    test('stores the values of small and large keys, listed in the order of the keys', () => {
+        const map = [5, 1 << 20, 0, 1234567890123, 31, 32].reduce((acc, key) => intMapSet(acc, key, `v${key}`), emptyIntMap<string>());
+        expect(map.size).toBe(6);
+        expect(intMapGet(map, 1234567890123)).toBe("v1234567890123");
+        expect(intMapGet(map, 32)).toBe("v32");
+        expect(intMapHas(map, 6)).toBe(false);
+        expect(intMapGet(map, -1)).toBeUndefined();
+        expect(intMapValues(map)).toEqual(["v0", "v5", "v31", "v32", "v1048576", "v1234567890123"]);
+    });
+
+    test('never changes a map, the new maps share the untouched values', () => {
+        const map = intMapSet(intMapSet(emptyIntMap<string>(), 1, "one"), 2, "two");
+        const changed = intMapSet(map, 1, "uno");
+        const removed = intMapRemove(changed, 2);
+        expect(intMapValues(map)).toEqual(["one", "two"]);
+        expect(intMapValues(changed)).toEqual(["uno", "two"]);
+        expect(intMapValues(removed)).toEqual(["uno"]);
+        expect([changed.size, removed.size]).toEqual([2, 1]);
+        expect(intMapRemove(removed, 7)).toBe(removed);
+        expect(intMapRemove(removed, 1).root).toBeUndefined();
+    });
+
+    test('refuses negative and non-integer keys', () => {
+        expect(() => intMapSet(emptyIntMap(), -3, "x")).toThrow("Invalid key -3, expected a non-negative integer");
+        expect(() => intMapSet(emptyIntMap(), 1.5, "x")).toThrow("Invalid key 1.5");
+    });
+});
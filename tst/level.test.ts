@@ -0,0 +1,97 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { Level, loadLevel, parseLevel, validateLevel } from '../src/world/level';
+import { storeToList } from '../src/actors/actorStore';
+import { kitchen } from '../src/world/kitchen';
+import { createPosition } from '../src/common/position';
+import { listLength, listToArray } from '../src/common/list';
+import { computePhases } from '../src/engine/phases';
+
+const smallLevel: Level = {
+    size: createPosition(4, 4),
+    walls: [{ template: "worktop", position: createPosition(2, 2) }],
+    spawners: [{ template: "hole", position: createPosition(0, 0) }],
+    enemies: [{ template: "remyWithSpoon", position: createPosition(0, 0) }],
+    towers: [{ template: "gusteauWithPan", position: createPosition(1, 3) }],
+    goals: [{ template: "linguini", position: createPosition(4, 4) }],
+    waves: [{ turn: 1, spawner: createPosition(0, 0), template: "remyWithSpoon", count: 2, delay: 1 }],
+    budget: 100,
+    terrain: [],
+    connectivity: 4,
+    phases: []
+};
+
+describe('Level tests', () => {
+    describe('parseLevel', () => {
+        test('reads the level files of the repository', () => {
+            expect(parseLevel(readFileSync("levels/kitchen.json", "utf-8"))).toEqual(kitchen);
+        });
+
+        test('reads missing categories as empty', () => {
+            expect(parseLevel('{ "size": { "x": 3, "y": 3 } }').towers).toEqual([]);
+            expect(parseLevel('{ "size": { "x": 3, "y": 3 } }').waves).toEqual([]);
+        });
+
+        test('refuses content that is not a level', () => {
+            expect(() => parseLevel('{}')).toThrow("missing size");
+            expect(() => parseLevel('{ "size": { "x": 3, "y": 3 }, "walls": [{ "template": "worktop" }] }')).toThrow("walls must be a list");
+        });
+    });
+
+    describe('validateLevel', () => {
+        test('accepts a valid level', () => {
+            expect(validateLevel(smallLevel)).toEqual([]);
+            expect(validateLevel(kitchen)).toEqual([]);
+        });
+
+        test('refuses unknown templates and templates of another category', () => {
+            expect(validateLevel({ ...smallLevel, towers: [{ template: "skinner", position: createPosition(1, 1) }] }))
+                .toEqual(['towers[0]: unknown template "skinner"']);
+            expect(validateLevel({ ...smallLevel, walls: [{ template: "linguini", position: createPosition(1, 1) }] }))
+                .toEqual(['walls[0]: template "linguini" is a GOAL, not a WALL']);
+        });
+
+        test('refuses positions out of the world', () => {
+            expect(validateLevel({ ...smallLevel, goals: [{ template: "linguini", position: createPosition(5, 1) }] }))
+                .toEqual(["goals[0]: position (5, 1) is out of the world"]);
+        });
+
+        test('refuses waves of no enemy, from no spawner or badly timed', () => {
+            const wave = smallLevel.waves[0];
+            expect(validateLevel({ ...smallLevel, waves: [{ ...wave, template: "linguini" }] }))
+                .toEqual(['waves[0]: template "linguini" is a GOAL, not an ENEMY']);
+            expect(validateLevel({ ...smallLevel, waves: [{ ...wave, spawner: createPosition(1, 1) }] }))
+                .toEqual(["waves[0]: no spawner at (1, 1)"]);
+            expect(validateLevel({ ...smallLevel, waves: [wave, { ...wave, count: 0 }] }))
+                .toEqual(["waves[1]: count must be an integer greater than 0"]);
+        });
+
+        test('refuses phases played twice and leaves the unknown phases to the engine', () => {
+            expect(validateLevel({ ...smallLevel, phases: ["heal", "shield", "move", "heal"] }))
+                .toEqual(['phases[3]: phase "heal" is played twice']);
+            const [world, actors] = loadLevel({ ...smallLevel, phases: ["heal", "build"] });
+            expect(() => computePhases(world, actors)).toThrow('Unknown phase "build"');
+        });
+
+        test('refuses overlapping blocking actors', () => {
+            expect(validateLevel({ ...smallLevel, towers: [{ template: "gusteauWithPan", position: createPosition(2, 2) }] }))
+                .toEqual(["towers[0]: position (2, 2) is already taken by walls[0]"]);
+        });
+    });
+
+    describe('loadLevel', () => {
+        test('builds the world and the actors of the level', () => {
+            const [world, store] = loadLevel(smallLevel, { seed: 4 });
+            const actors = storeToList(store);
+            expect(world.size).toEqual(createPosition(4, 4));
+            expect(world.balance).toBe(100);
+            expect(listLength(actors)).toBe(5);
+            expect(listToArray(actors).map((actor) => actor.name)).toEqual(["Worktop", "Hole", "Remy with a Spoon", "Gusteau with a Pan", "Linguini"]);
+            expect(listToArray(actors).map((actor) => actor.id)).toEqual([0, 1, 2, 3, 4]);
+        });
+
+        test('throws every problem of an invalid level', () => {
+            expect(() => loadLevel({ ...smallLevel, enemies: [{ template: "rat", position: createPosition(9, 9) }] })).toThrow('Invalid level:\nenemies[0]: unknown template "rat"');
+        });
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { bresenhamLine, getActorsInSight, hasLineOfSight } from '../src/world/lineOfSight';
+import { Actor } from '../src/actors/actors';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { splashAttack } from '../src/actors/attacks';
+import { createPosition } from '../src/common/position';
+import { arrayToList, emptyList, listToArray } from '../src/common/list';
+
+const world = buildWorld(createPosition(6, 6));
+const actor = (template: string, x: number, y: number): Actor => createActorFromTemplate(template, createPosition(x, y));
+const cells = (line: [number, number][]) => line.map(([x, y]) => createPosition(x, y));
+
+describe('Line of sight tests', () => {
+    test('the Bresenham line goes from the first cell to the last one', () => {
+        expect(bresenhamLine(createPosition(0, 0), createPosition(3, 0))).toEqual(cells([[0, 0], [1, 0], [2, 0], [3, 0]]));
+        expect(bresenhamLine(createPosition(0, 0), createPosition(4, 2))).toEqual(cells([[0, 0], [1, 1], [2, 1], [3, 2], [4, 2]]));
+        expect(bresenhamLine(createPosition(2, 2), createPosition(0, 0))).toEqual(cells([[2, 2], [1, 1], [0, 0]]));
+        expect(bresenhamLine(createPosition(1, 1), createPosition(1, 1))).toEqual(cells([[1, 1]]));
+    });
+
+    test('only the walls between the two cells block the view', () => {
+        const actors = arrayToList([actor("worktop", 2, 0), actor("remyWithSpoon", 1, 2), actor("marmite", 4, 4)]);
+        expect(hasLineOfSight(actors, createPosition(0, 0), createPosition(4, 0))).toBe(false);
+        expect(hasLineOfSight(actors, createPosition(0, 2), createPosition(4, 2))).toBe(true);
+        expect(hasLineOfSight(actors, createPosition(0, 0), createPosition(2, 0))).toBe(true);
+        expect(hasLineOfSight(actors, createPosition(3, 3), createPosition(5, 5))).toBe(false);
+    });
+
+    test('the view does not pass between two walls touching at a corner', () => {
+        const actors = arrayToList([actor("worktop", 1, 0), actor("worktop", 0, 1)]);
+        expect(hasLineOfSight(actors, createPosition(0, 0), createPosition(1, 1))).toBe(false);
+        expect(hasLineOfSight(actors, createPosition(0, 0), createPosition(2, 2))).toBe(false);
+        expect(hasLineOfSight(arrayToList([actor("worktop", 1, 0)]), createPosition(0, 0), createPosition(1, 1))).toBe(true);
+        expect(hasLineOfSight(arrayToList([actor("worktop", 1, 0), actor("worktop", 0, 1)]), createPosition(1, 1), createPosition(3, 3))).toBe(true);
+    });
+
+    test('the Bresenham line of a long segment is built without running out of stack', () => {
+        const line = bresenhamLine(createPosition(0, 0), createPosition(200000, 1));
+        expect(line.length).toBe(200001);
+        expect(line.at(-1)).toEqual(createPosition(200000, 1));
+    });
+
+    test('the actors requiring line of sight do not attack through walls', () => {
+        const tower = actor("gusteauWithPan", 0, 0);
+        const hidden = actor("remyWithSpoon", 2, 0);
+        const seen = actor("remyWithSpoon", 0, 2);
+        const actors = arrayToList([tower, actor("worktop", 1, 0), hidden, seen]);
+        expect(listToArray(getActorsInSight(actors, tower, 2)).map((anActor) => anActor.id)).not.toContain(hidden.id);
+        expect(listToArray(getActorsInSight(actors, tower, 2)).map((anActor) => anActor.id)).toContain(seen.id);
+        expect(listToArray(getActorsInSight(actors, { ...tower, lineOfSight: false }, 2)).map((anActor) => anActor.id)).toContain(hidden.id);
+        expect(listToArray(tower.actions.attack?.(tower, world, arrayToList([tower, actor("worktop", 1, 0), hidden])) ?? emptyList())).toEqual([]);
+        expect(listToArray(splashAttack({ range: 3, damage: 30, radius: 1 })(tower, world, arrayToList([tower, actor("worktop", 1, 0), hidden])))).toEqual([]);
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, test } from '@jest/globals';
 import * as list from "../src/common/list";
+import { createRng } from "../src/common/random";
 
 describe('All list tests', () => {
     test('Test if isEmpty returns true on an empty list', () => {
@@ -197,6 +198,13 @@ describe('All list tests', () => {
         });
     });
 
+    describe('listToArray', () => {
+        it('should convert a list to an array', () => {
+            expect(list.listToArray(list.cons(4, list.cons(2, list.nil)))).toEqual([4, 2]);
+            expect(list.listToArray(list.emptyList())).toEqual([]);
+        });
+    });
+
     describe('concatList', () => {
         it('should concatenate two lists', () => {
             const l1: list.List<number> = list.cons(4, list.cons(2, list.nil));
@@ -209,13 +217,42 @@ describe('All list tests', () => {
     describe('randomList', () => {
         it('should returns a element that is in the list', () => {
             const l: list.List<number> = list.cons(3, list.cons(6, list.cons(8, list.nil)));
-            const n = list.randomList(l);
+            const n = list.randomList(l, createRng(42));
             expect(n === 8 || n === 6 || n === 3).toBeTruthy();
         });
 
+        it('should returns the same element for the same generator', () => {
+            const l: list.List<number> = list.cons(3, list.cons(6, list.cons(8, list.nil)));
+            expect(list.randomList(l, createRng(42))).toBe(list.randomList(l, createRng(42)));
+        });
+
         it('should return undefined if the list is empty', () => {
             const l: list.List<number> = list.emptyList();
-            expect(list.randomList(l)).toBe(undefined);
+            expect(list.randomList(l, createRng(42))).toBe(undefined);
+        });
+    });
+
+    describe('long lists', () => {
+        const n = 100000;
+        const numbers = Array.from({ length: n }, (_, i) => i);
+        const l: list.List<number> = list.arrayToList(numbers);
+
+        it('should convert and measure lists of 100k elements', () => {
+            expect(list.listLength(l)).toBe(n);
+            expect(list.listToArray(l)).toEqual(numbers);
+            expect(list.readListAt(l, n - 1)).toBe(n - 1);
+            expect(list.searchList(l, n - 2, (x: number, y: number) => x === y)).toBe(n - 2);
+            expect(list.listEquals(l, list.copyList(l), (x: number, y: number) => x === y)).toBeTruthy();
+        });
+
+        it('should map, fold, append and concatenate lists of 100k elements', () => {
+            expect(list.listFoldR((acc: number[], x: number) => acc.length < 3 ? [...acc, x] : acc, [], l)).toEqual([n - 1, n - 2, n - 3]);
+            expect(list.listFoldR((acc: number, x: number) => acc + x, 0, list.listMap((x: number) => 2 * x, l))).toBe(n * (n - 1));
+            expect(list.readListAt(list.appendList(l, -1), n)).toBe(-1);
+            expect(list.listLength(list.concatList(l, l))).toBe(2 * n);
+            expect(list.readListAt(list.addAtList(l, -1, n / 2), n / 2)).toBe(-1);
+            expect(list.readListAt(list.removeAtList(l, 0), 0)).toBe(1);
+            expect(list.listToArray(l)).toEqual(numbers);
         });
     });
 });
\ No newline at end of file
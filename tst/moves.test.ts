@@ -0,0 +1,64 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { Actor, setActorPosition, setLifePoint } from '../src/actors/actors';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { createActorStore, emptyActorStore, getStoredActor } from '../src/actors/actorStore';
+import { computePhases, Phase } from '../src/engine/phases';
+import { MoveProposal } from '../src/actors/proposals';
+import { createPosition, Position } from '../src/common/position';
+import { arrayToList, List, listToArray } from '../src/common/list';
+
+const world = buildWorld(createPosition(4, 4));
+const move = <Phase>listToArray(computePhases(world, emptyActorStore())).find((aPhase) => aPhase.funcName === "move");
+const actor = (template: string, x: number, y: number): Actor => createActorFromTemplate(template, createPosition(x, y));
+
+/**
+ * Resolves the moves of the actors and returns their positions, by actor.
+ */
+function resolve(actors: Actor[], targets: (Position | undefined)[], aWorld = world): (Position | undefined)[] {
+    const proposals = arrayToList(actors.map((anActor, i) => targets[i] ? setActorPosition(anActor, <Position>targets[i]) : undefined));
+    const resolved = move.resolver(aWorld, createActorStore(arrayToList(actors)), <List<MoveProposal>>proposals)[1];
+    return actors.map((anActor) => getStoredActor(resolved, anActor.id)?.position);
+}
+
+describe('Move resolver tests', () => {
+    test('gives a contested cell to the mover closest to a goal', () => {
+        const goal = actor("linguini", 4, 2);
+        const far = actor("remyWithSpoon", 2, 1);
+        const close = actor("remyWithSpoon", 3, 3);
+        expect(resolve([far, close, goal], [createPosition(3, 2), createPosition(3, 2), undefined]))
+            .toEqual([createPosition(2, 1), createPosition(3, 2), createPosition(4, 2)]);
+    });
+
+    test('lets a mover follow the mover leaving its cell', () => {
+        const goal = actor("linguini", 4, 0);
+        const leader = actor("remyWithSpoon", 2, 0);
+        const follower = actor("remyWithSpoon", 1, 0);
+        expect(resolve([follower, leader, goal], [createPosition(2, 0), createPosition(3, 0), undefined]))
+            .toEqual([createPosition(2, 0), createPosition(3, 0), createPosition(4, 0)]);
+    });
+
+    test('keeps the movers blocked by a full cell or a blocking actor in place', () => {
+        const waiting = actor("remyWithSpoon", 1, 1);
+        const mover = actor("remyWithSpoon", 0, 1);
+        const wall = actor("worktop", 1, 0);
+        const blocked = actor("remyWithSpoon", 0, 0);
+        expect(resolve([waiting, mover, wall, blocked], [undefined, createPosition(1, 1), undefined, createPosition(1, 0)]))
+            .toEqual([createPosition(1, 1), createPosition(0, 1), createPosition(1, 0), createPosition(0, 0)]);
+    });
+
+    test('only accepts single steps to a neighbour cell of the world', () => {
+        const remy = actor("remyWithSpoon", 0, 0);
+        expect(resolve([remy], [createPosition(2, 0)])).toEqual([createPosition(0, 0)]);
+        expect(resolve([remy], [createPosition(1, 1)])).toEqual([createPosition(0, 0)]);
+        expect(resolve([remy], [createPosition(-1, 0)])).toEqual([createPosition(0, 0)]);
+        expect(resolve([remy], [createPosition(1, 1)], buildWorld(createPosition(4, 4), { connectivity: 8 }))).toEqual([createPosition(1, 1)]);
+    });
+
+    test('only takes the position of a move proposal', () => {
+        const remy = actor("remyWithSpoon", 0, 0);
+        const proposal = setLifePoint(setActorPosition(remy, createPosition(1, 0)), 10000);
+        const resolved = move.resolver(world, createActorStore(arrayToList([remy])), arrayToList([proposal]))[1];
+        expect(getStoredActor(resolved, remy.id)?.health).toBe(remy.health);
+    });
+});
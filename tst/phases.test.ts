@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { Actor, ActorActions, getPhaseAction, setLifePoint } from '../src/actors/actors';
+import { createActorStore, emptyActorStore, getStoredActor, replaceStoredActor, storeToList } from '../src/actors/actorStore';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { Resolver, computePhases, defaultPhaseOrder, getPhase, getPhaseNames, registerPhase, unregisterPhase } from '../src/engine/phases';
+import { playTurn } from '../src/engine/engine';
+import { createPosition } from '../src/common/position';
+import { arrayToList, emptyList, listFoldR, listToArray } from '../src/common/list';
+
+//a custom phase: the actors propose the health they gain from a shield
+const shieldResolver: Resolver<number> = (aWorld, actors, proposals) => [aWorld, listFoldR((acc, [anActor, shield]) => {
+    const shielded = getStoredActor(acc, anActor.id);
+    return shield && shielded ? replaceStoredActor(acc, setLifePoint(shielded, shielded.health + shield)) : acc;
+}, actors, arrayToList(listToArray(proposals).map((shield, i): [Actor, number | undefined] => [listToArray(storeToList(actors))[i], shield])))];
+
+describe('Phases tests', () => {
+    beforeEach(() => registerPhase("shield", shieldResolver));
+    afterEach(() => unregisterPhase("shield"));
+
+    describe('registry', () => {
+        test('registers new phases once', () => {
+            expect(getPhaseNames()).toEqual(["move", "attack", "spawn", "heal", "shield"]);
+            expect(getPhase("shield").funcName).toBe("shield");
+            expect(() => registerPhase("move", (aWorld, actors) => [aWorld, actors])).toThrow('Phase "move" is already registered');
+            expect(() => getPhase("build")).toThrow('Unknown phase "build"');
+        });
+
+        test('unregisters the registered phases only', () => {
+            registerPhase("build", (aWorld, actors) => [aWorld, actors]);
+            unregisterPhase("build");
+            expect(getPhaseNames()).toEqual(["move", "attack", "spawn", "heal", "shield"]);
+            expect(() => unregisterPhase("build")).toThrow('Unknown phase "build"');
+            expect(() => unregisterPhase("move")).toThrow('Phase "move" is built in');
+        });
+    });
+
+    describe('computePhases', () => {
+        test('plays the phases in the order of the world, the default order otherwise', () => {
+            const played = (phases: string[]) => listToArray(computePhases(buildWorld(createPosition(4, 4), { phases: phases }), emptyActorStore()))
+                .map((aPhase) => aPhase.funcName).reverse();
+            expect(played([])).toEqual([...defaultPhaseOrder]);
+            expect(played(["shield", "move"])).toEqual(["shield", "move"]);
+            expect(() => played(["build"])).toThrow('Unknown phase "build"');
+        });
+
+        test('asks the actors acting during a custom phase, the other ones keep their templates', () => {
+            const remy = createActorFromTemplate("remyWithSpoon", createPosition(0, 0));
+            const shielded: Actor = { ...remy, id: remy.id + 1, health: 100, actions: { ...remy.actions, custom: { shield: () => 30 } } };
+            const world = buildWorld(createPosition(4, 4), { phases: ["shield", "heal"] });
+            const [, actors] = playTurn(world, createActorStore(arrayToList([setLifePoint(remy, 100), shielded])), computePhases(world, emptyActorStore()));
+            expect(getStoredActor(actors, remy.id)?.health).toBe(110);
+            expect(getStoredActor(actors, shielded.id)?.health).toBe(140);
+        });
+
+        test('checks the names of the built-in actions and reads the custom ones from their own map', () => {
+            const remy = createActorFromTemplate("remyWithSpoon", createPosition(0, 0));
+            // @ts-expect-error a misspelled built-in action does not compile
+            const misspelled: ActorActions = { atack: remy.actions.attack };
+            expect(getPhaseAction({ ...remy, actions: misspelled }, "attack")).toBeUndefined();
+            expect(getPhaseAction(remy, "attack")).toBe(remy.actions.attack);
+            expect(getPhaseAction({ ...remy, actions: { custom: { attack: () => 30 } } }, "attack")).toBeUndefined();
+            expect(getPhaseAction({ ...remy, actions: { custom: { shield: () => 30 } } }, "shield")?.(remy, buildWorld(createPosition(1, 1)), emptyList())).toBe(30);
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, test } from '@jest/globals';
+import { Level, loadLevel } from '../src/world/level';
+import { applyPlacements, createPlayerOrder, parsePlacementOrder, placeTower, setTowerTargeting, upgradeKeyword, upgradeTower } from '../src/engine/placement';
+import { getTargeting } from '../src/actors/targeting';
+import { addEffect, getPoisonDamage, hasEffect } from '../src/actors/effects';
+import { setLifePoint } from '../src/actors/actors';
+import { getStoreSize, getStoredActor, replaceStoredActor, storeToList } from '../src/actors/actorStore';
+import { createPosition } from '../src/common/position';
+import { listToArray } from '../src/common/list';
+import { actorLegend, boardToWorldPosition, getBoardString } from '../src/graphics/consoleGraphics';
+
+/**
+ * A corridor of height 1: the spawner on the left, the goal on the right.
+ */
+const corridor: Level = {
+    size: createPosition(4, 1),
+    walls: [{ template: "worktop", position: createPosition(2, 0) }],
+    spawners: [{ template: "hole", position: createPosition(0, 0) }],
+    enemies: [],
+    towers: [],
+    goals: [{ template: "linguini", position: createPosition(4, 0) }],
+    waves: [],
+    budget: 120,
+    terrain: [],
+    connectivity: 4,
+    phases: []
+};
+
+const order = (template: string, x: number, y: number) => ({ template: template, position: createPosition(x, y) });
+
+describe('Placement tests', () => {
+    describe('placeTower', () => {
+        test('adds the tower and takes its cost', () => {
+            const [world, actors] = loadLevel(corridor);
+            const [newWorld, newActors] = placeTower(world, actors, order("gusteauWithPan", 1, 0));
+            expect(newWorld.balance).toBe(70);
+            expect(getStoreSize(newActors)).toBe(getStoreSize(actors) + 1);
+            expect(listToArray(storeToList(newActors)).at(-1)?.position).toEqual(createPosition(1, 0));
+        });
+
+        test('refuses templates that are not towers, cells out of the world and taken cells', () => {
+            const [world, actors] = loadLevel(corridor);
+            expect(() => placeTower(world, actors, order("worktop", 1, 0))).toThrow('Template "worktop" is not a tower');
+            expect(() => placeTower(world, actors, order("gusteauWithPan", 5, 0))).toThrow("Position (5, 0) is out of the world");
+            expect(() => placeTower(world, actors, order("gusteauWithPan", 2, 0))).toThrow("Position (2, 0) is already taken");
+        });
+
+        test('refuses towers cutting a spawner from every goal', () => {
+            const [world, actors] = loadLevel(corridor);
+            expect(() => placeTower(world, actors, order("gusteauWithPan", 2, 1))).toThrow("would cut the spawner at (0, 0) from every goal");
+        });
+
+        test('refuses towers the player cannot afford', () => {
+            const [world, actors] = loadLevel(corridor);
+            expect(() => placeTower(world, actors, order("veryAngryGusteauWithPan", 1, 0))).toThrow("Insufficient funds");
+        });
+    });
+
+    describe('upgradeTower', () => {
+        test('turns a tower into its next tier with the same id, position and health ratio', () => {
+            const [world, actors] = loadLevel({ ...corridor, budget: 300 });
+            const [placedWorld, placedActors] = placeTower(world, actors, order("gusteauWithPan", 1, 0));
+            const tower = listToArray(storeToList(placedActors)).at(-1)!;
+            const [newWorld, newActors] = upgradeTower(placedWorld, replaceStoredActor(placedActors, setLifePoint(tower, 100)), createPosition(1, 0));
+            const upgraded = getStoredActor(newActors, tower.id);
+            expect(newWorld.balance).toBe(170);
+            expect(upgraded?.name).toBe("Angry Gusteau with a Pan");
+            expect(upgraded?.position).toEqual(createPosition(1, 0));
+            expect(upgraded?.health).toBe(150);
+            expect(getStoreSize(newActors)).toBe(getStoreSize(placedActors));
+        });
+
+        test('keeps the status effects of the tower', () => {
+            const [world, actors] = loadLevel({ ...corridor, budget: 300, towers: [{ template: "gusteauWithPan", position: createPosition(1, 0) }] });
+            const tower = listToArray(storeToList(actors)).find((anActor) => anActor.type === "TOWER")!;
+            const poisoned = replaceStoredActor(actors, addEffect(tower, { kind: "POISON", turns: 3, damage: 10 }));
+            const [, upgraded] = upgradeTower(world, poisoned, createPosition(1, 0));
+            expect(hasEffect(getStoredActor(upgraded, tower.id)!, "POISON")).toBe(true);
+            expect(getPoisonDamage(getStoredActor(upgraded, tower.id)!)).toBe(10);
+        });
+
+        test('refuses cells without tower, last tiers and upgrades the player cannot afford', () => {
+            const [world, actors] = loadLevel({ ...corridor, towers: [{ template: "veryAngryGusteauWithPan", position: createPosition(3, 0) }, { template: "angryGusteauWithPan", position: createPosition(1, 0) }] });
+            expect(() => upgradeTower(world, actors, createPosition(2, 0))).toThrow("There is no tower at (2, 0)");
+            expect(() => upgradeTower(world, actors, createPosition(3, 0))).toThrow("Very Angry Gusteau with a Pan at (3, 0) cannot be upgraded");
+            expect(() => upgradeTower(world, actors, createPosition(1, 0))).toThrow("Insufficient funds: 150 needed, 120 available");
+        });
+    });
+
+    describe('setTowerTargeting', () => {
+        test('switches the policy of a placed tower, which keeps it when upgraded', () => {
+            const [world, actors] = loadLevel({ ...corridor, budget: 300, towers: [{ template: "gusteauWithPan", position: createPosition(1, 0) }] });
+            const retargeted = setTowerTargeting(actors, createPosition(1, 0), "LOWEST_HEALTH");
+            expect(getTargeting(listToArray(storeToList(retargeted)).find((anActor) => anActor.type === "TOWER")!)).toBe("LOWEST_HEALTH");
+            const [, upgraded] = upgradeTower(world, retargeted, createPosition(1, 0));
+            expect(getTargeting(listToArray(storeToList(upgraded)).find((anActor) => anActor.type === "TOWER")!)).toBe("LOWEST_HEALTH");
+            expect(() => setTowerTargeting(actors, createPosition(3, 0), "NEAREST")).toThrow("There is no tower at (3, 0)");
+        });
+
+        test('an upgraded tower takes the policy of the next tier when the player set none', () => {
+            const [world, actors] = loadLevel({ ...corridor, budget: 300, towers: [{ template: "gusteauWithPan", position: createPosition(1, 0) }] });
+            const [upgradedWorld, upgraded] = upgradeTower(world, actors, createPosition(1, 0));
+            expect(getTargeting(listToArray(storeToList(upgraded)).find((anActor) => anActor.type === "TOWER")!)).toBe("FARTHEST_ALONG_PATH");
+            const [, twice] = upgradeTower({ ...upgradedWorld, balance: 300 }, upgraded, createPosition(1, 0));
+            expect(getTargeting(listToArray(storeToList(twice)).find((anActor) => anActor.type === "TOWER")!)).toBe("STRONGEST");
+        });
+    });
+
+    describe('applyPlacements', () => {
+        test('places the orders in turn and reports the refused ones', () => {
+            const [world, actors] = loadLevel(corridor);
+            const [newWorld, newActors, errors] = applyPlacements(world, actors, [order("gusteauWithPan", 1, 0), order("gusteauWithPan", 1, 0), order("gusteauWithPan", 4, 1)]);
+            expect(newWorld.balance).toBe(20);
+            expect(getStoreSize(newActors)).toBe(getStoreSize(actors) + 2);
+            expect(errors).toEqual(["Position (1, 0) is already taken"]);
+        });
+
+        test('places the tower clicked on a cell of the board on the same cell of the world', () => {
+            const [world, actors] = loadLevel({ ...corridor, size: createPosition(2, 2), walls: [], goals: [{ template: "linguini", position: createPosition(2, 2) }] });
+            const [x, y] = [1, 0];
+            const position = boardToWorldPosition(world.size, x, y);
+            const [, newActors, errors] = applyPlacements(world, actors, [{ template: "gusteauWithPan", position: position }]);
+            expect(position).toEqual(createPosition(1, 2));
+            expect(errors).toEqual([]);
+            expect(getBoardString(world, newActors).split("\n")[y][x]).toBe(actorLegend["gusteauWithPan"]);
+        });
+
+        test('upgrades the towers asked by the player and reports the refused upgrades', () => {
+            const [world, actors] = loadLevel({ ...corridor, budget: 200 });
+            const [newWorld, newActors, errors] = applyPlacements(world, actors, [order("gusteauWithPan", 1, 0), parsePlacementOrder("upgrade 1 0"), parsePlacementOrder("upgrade 3 0")]);
+            expect(newWorld.balance).toBe(70);
+            expect(listToArray(storeToList(newActors)).filter((anActor) => anActor.type === "TOWER").map((tower) => tower.name)).toEqual(["Angry Gusteau with a Pan"]);
+            expect(errors).toEqual(["There is no tower at (3, 0)"]);
+        });
+    });
+
+    describe('parsePlacementOrder', () => {
+        test('reads "<template> <x> <y>"', () => {
+            expect(parsePlacementOrder(" gusteauWithPan 3 4 ")).toEqual(order("gusteauWithPan", 3, 4));
+            expect(() => parsePlacementOrder("gusteauWithPan 3")).toThrow('Expected "<template> <x> <y>"');
+        });
+
+        test('reads "upgrade <x> <y>" and the same order as a click with the upgrade picked', () => {
+            expect(parsePlacementOrder("upgrade 3 4")).toEqual({ upgrade: true, position: createPosition(3, 4) });
+            expect(createPlayerOrder(upgradeKeyword, createPosition(3, 4))).toEqual(parsePlacementOrder("upgrade 3 4"));
+            expect(createPlayerOrder("gusteauWithPan", createPosition(3, 4))).toEqual(order("gusteauWithPan", 3, 4));
+            expect(() => parsePlacementOrder("upgrade 3")).toThrow('"upgrade <x> <y>"');
+        });
+
+        test('reads "target <x> <y> <policy>" and retargets the tower through the orders', () => {
+            const [world, actors] = loadLevel(corridor);
+            const [placedWorld, placedActors] = placeTower(world, actors, order("gusteauWithPan", 1, 0));
+            const [newWorld, newActors, errors] = applyPlacements(placedWorld, placedActors, [parsePlacementOrder("target 1 0 NEAREST"), parsePlacementOrder("target 3 0 STRONGEST")]);
+            expect(newWorld.balance).toBe(placedWorld.balance);
+            expect(getTargeting(listToArray(storeToList(newActors)).find((anActor) => anActor.type === "TOWER")!)).toBe("NEAREST");
+            expect(errors).toEqual(["There is no tower at (3, 0)"]);
+            expect(() => parsePlacementOrder("target 1 0 CLOSEST")).toThrow('Unknown targeting policy "CLOSEST"');
+            expect(() => parsePlacementOrder("target 1 0")).toThrow('"target <x> <y> <policy>"');
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld, World } from '../src/world/world';
+import { Actor, getActorById, getActorsByType, setActorPosition } from '../src/actors/actors';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { stepTowards } from '../src/actors/projectiles';
+import { createActorStore, emptyActorStore, storeToList } from '../src/actors/actorStore';
+import { computePhases, Phase } from '../src/engine/phases';
+import { AttackProposal } from '../src/actors/proposals';
+import { getEvents } from '../src/world/events';
+import { loadActor, saveActor } from '../src/engine/save';
+import { createPosition } from '../src/common/position';
+import { List, arrayToList, head, listLength, listMap, listToArray } from '../src/common/list';
+
+const world = { ...buildWorld(createPosition(8, 8)), turn: 3 };
+const attack = <Phase>listToArray(computePhases(world, emptyActorStore())).find((aPhase) => aPhase.funcName === "attack");
+const actor = (template: string, x: number, y: number): Actor => createActorFromTemplate(template, createPosition(x, y));
+
+/**
+ * Resolves an attack phase where only the first actor attacks.
+ */
+function resolve(actors: List<Actor>, proposal?: AttackProposal): [World, List<Actor>] {
+    const [newWorld, newActors] = attack.resolver(world, createActorStore(actors), listMap((anActor) => anActor === head(actors) ? proposal : undefined, actors));
+    return [newWorld, storeToList(newActors)];
+}
+
+const throwing = (id: number, homing: boolean) => <AttackProposal>arrayToList([{ id: id, damage: 40, projectile: { template: "thrownCheese", speed: 2, homing: homing } }]);
+
+describe('Projectiles tests', () => {
+    test('a projectile travels its speed in cells toward its impact cell', () => {
+        expect(stepTowards(createPosition(0, 0), createPosition(5, 0), 2)).toEqual(createPosition(2, 0));
+        expect(stepTowards(createPosition(0, 0), createPosition(4, 3), 2)).toEqual(createPosition(2, 1));
+        expect(stepTowards(createPosition(0, 0), createPosition(1, 1), 2)).toEqual(createPosition(1, 1));
+    });
+
+    test('an attack throws a projectile from the attacker toward the cell of its target', () => {
+        const tower = actor("gusteauWithPan", 0, 0);
+        const remy = actor("remyWithSpoon", 5, 0);
+        const [newWorld, newActors] = resolve(arrayToList([tower, remy]), throwing(remy.id, false));
+        const cheese = head(getActorsByType(newActors, "PROJECTILE"));
+        expect(cheese.position).toEqual(tower.position);
+        expect(cheese.flight).toEqual({ source: tower.id, target: remy.id, impact: createPosition(5, 0), speed: 2, homing: false, damage: 40 });
+        expect(getActorById(newActors, remy.id)?.health).toBe(200);
+        expect(listToArray(getEvents(newWorld))).toEqual([
+            { kind: "ProjectileLaunched", turn: 3, source: tower.id, projectile: cheese.id, target: remy.id, name: "Thrown Cheese", impact: createPosition(5, 0) }
+        ]);
+    });
+
+    test('a projectile hits its target when it lands on the cell of the target', () => {
+        const tower = actor("gusteauWithPan", 0, 0);
+        const remy = actor("remyWithSpoon", 3, 0);
+        const [, thrown] = resolve(arrayToList([tower, remy]), throwing(remy.id, false));
+        const [, flying] = resolve(thrown);
+        expect(getActorById(flying, remy.id)?.health).toBe(200);
+        const [landedWorld, landed] = resolve(flying);
+        expect(getActorById(landed, remy.id)?.health).toBe(160);
+        expect(listLength(getActorsByType(landed, "PROJECTILE"))).toBe(0);
+        expect(listToArray(getEvents(landedWorld)).map((event) => event.kind)).toEqual(["ActorMoved", "ActorDamaged"]);
+    });
+
+    test('a target dodges a projectile by moving out of the impact cell', () => {
+        const tower = actor("gusteauWithPan", 0, 0);
+        const remy = actor("remyWithSpoon", 2, 0);
+        const [, thrown] = resolve(arrayToList([tower, remy]), throwing(remy.id, false));
+        const cheese = head(getActorsByType(thrown, "PROJECTILE"));
+        const [landedWorld, landed] = resolve(listMap((anActor) => anActor.id === remy.id ? setActorPosition(anActor, createPosition(2, 1)) : anActor, thrown));
+        expect(getActorById(landed, remy.id)?.health).toBe(200);
+        expect(listLength(getActorsByType(landed, "PROJECTILE"))).toBe(0);
+        expect(listToArray(getEvents(landedWorld)).at(-1)).toEqual(
+            { kind: "ProjectileMissed", turn: 3, source: tower.id, projectile: cheese.id, target: remy.id, impact: createPosition(2, 0) });
+    });
+
+    test('a projectile whose target is gone lands without a miss', () => {
+        const tower = actor("gusteauWithPan", 0, 0);
+        const remy = actor("remyWithSpoon", 2, 0);
+        const [, thrown] = resolve(arrayToList([tower, remy]), throwing(remy.id, false));
+        const [landedWorld, landed] = resolve(arrayToList(listToArray(thrown).filter((anActor) => anActor.id !== remy.id)));
+        expect(listLength(getActorsByType(landed, "PROJECTILE"))).toBe(0);
+        expect(listToArray(getEvents(landedWorld)).map((event) => event.kind)).toEqual(["ActorMoved"]);
+    });
+
+    test('a homing projectile follows its target', () => {
+        const tower = actor("gusteauWithPan", 0, 0);
+        const remy = actor("remyWithSpoon", 2, 0);
+        const [, thrown] = resolve(arrayToList([tower, remy]), throwing(remy.id, true));
+        const [, landed] = resolve(listMap((anActor) => anActor.id === remy.id ? setActorPosition(anActor, createPosition(2, 1)) : anActor, thrown));
+        expect(getActorById(landed, remy.id)?.health).toBe(160);
+    });
+
+    test('Remy throws cheese, and the cheese in flight is kept in a save', () => {
+        const remy = actor("remyThrowingCheese", 0, 0);
+        const linguini = actor("linguini", 3, 0);
+        const proposal = <AttackProposal>remy.actions.attack?.(remy, world, arrayToList([remy, linguini]));
+        expect(head(proposal).projectile).toEqual({ template: "thrownCheese", speed: 2 });
+        const [, thrown] = resolve(arrayToList([remy, linguini]), proposal);
+        const cheese = head(getActorsByType(thrown, "PROJECTILE"));
+        expect(loadActor(saveActor(cheese))).toMatchObject({ id: cheese.id, name: "Thrown Cheese", flight: cheese.flight });
+    });
+});
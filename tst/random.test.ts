@@ -0,0 +1,42 @@
+import { describe, expect, test } from '@jest/globals';
+import { createRng, nextRandom, randomInt, splitRng } from '../src/common/random';
+
+describe('Random tests', () => {
+    describe('nextRandom', () => {
+        test('returns a number in [0, 1)', () => {
+            const [r] = nextRandom(createRng(42));
+            expect(r).toBeGreaterThanOrEqual(0);
+            expect(r).toBeLessThan(1);
+        });
+
+        test('returns the same sequence for the same seed', () => {
+            const [r1, next1] = nextRandom(createRng(42));
+            const [r2, next2] = nextRandom(createRng(42));
+            expect(r1).toBe(r2);
+            expect(nextRandom(next1)[0]).toBe(nextRandom(next2)[0]);
+        });
+
+        test('returns different sequences for different seeds', () => {
+            expect(nextRandom(createRng(1))[0]).not.toBe(nextRandom(createRng(2))[0]);
+        });
+    });
+
+    describe('randomInt', () => {
+        test('returns an integer in [0, n)', () => {
+            const [n] = randomInt(createRng(7), 5);
+            expect(Number.isInteger(n)).toBeTruthy();
+            expect(n).toBeGreaterThanOrEqual(0);
+            expect(n).toBeLessThan(5);
+        });
+    });
+
+    describe('splitRng', () => {
+        test('derives the same generator for the same key', () => {
+            expect(splitRng(createRng(3), 12)).toEqual(splitRng(createRng(3), 12));
+        });
+
+        test('derives different generators for different keys', () => {
+            expect(nextRandom(splitRng(createRng(3), 1))[0]).not.toBe(nextRandom(splitRng(createRng(3), 2))[0]);
+        });
+    });
+});
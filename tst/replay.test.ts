@@ -0,0 +1,48 @@
+import { describe, expect, test } from '@jest/globals';
+import { loadLevel } from '../src/world/level';
+import { kitchen } from '../src/world/kitchen';
+import { cons, emptyList } from '../src/common/list';
+import { getStoreSize, getStoredActor } from '../src/actors/actorStore';
+import { computePhases } from '../src/engine/phases';
+import { playTurn } from '../src/engine/engine';
+import { PhaseRecord, addTurn, createReplay, parseReplay, recordPhase, recordProposal, replayStates, replayToJson } from '../src/engine/replay';
+
+describe('Replay tests', () => {
+    describe('recordProposal', () => {
+        test('stores lists as arrays and missing proposals as null', () => {
+            expect(recordProposal(cons({ id: 3, damage: 20 }, emptyList()))).toEqual([{ id: 3, damage: 20 }]);
+            expect(recordProposal(undefined)).toBe(null);
+        });
+
+        test('stores actors without their actions', () => {
+            const [, actors] = loadLevel(kitchen);
+            const snapshot = <Record<string, unknown>>recordProposal(getStoredActor(actors, 0));
+            expect(snapshot.id).toBe(0);
+            expect(snapshot.actions).toBeUndefined();
+        });
+    });
+
+    describe('recording a game', () => {
+        test('records every phase of every turn and the actors at the end of the turn', () => {
+            let [world, actors] = loadLevel(kitchen, { seed: 42 });
+            const phases = computePhases(world, actors);
+            let replay = createReplay(world, actors);
+            for (let i = 0; i < 3; i++) {
+                const records: PhaseRecord[] = [];
+                [world, actors] = playTurn(world, actors, phases, (aPhase, actors, proposals) => records.push(recordPhase(aPhase, actors, proposals)));
+                replay = addTurn(replay, records, actors);
+            }
+            expect(replay.turns.length).toBe(3);
+            expect(replay.turns[2].phases.map((aPhase) => aPhase.phase)).toEqual(["heal", "spawn", "attack", "move"]);
+            expect(replay.turns[2].actors.length).toBe(getStoreSize(actors));
+            expect(replayStates(replay).length).toBe(4);
+        });
+
+        test('reads back a written replay', () => {
+            const [world, actors] = loadLevel(kitchen, { seed: 42 });
+            const replay = createReplay(world, actors);
+            expect(parseReplay(replayToJson(replay))).toEqual(replay);
+            expect(() => parseReplay("{}")).toThrow("Invalid replay file");
+        });
+    });
+});
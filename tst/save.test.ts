@@ -0,0 +1,73 @@
+import { describe, expect, test } from '@jest/globals';
+import { World } from '../src/world/world';
+import { createPosition } from '../src/common/position';
+import { loadLevel } from '../src/world/level';
+import { kitchen } from '../src/world/kitchen';
+import { arrayToList, listToArray } from '../src/common/list';
+import { getTargeting, setTargeting } from '../src/actors/targeting';
+import { ActorStore, createActorStore, removeStoredActor, storeToList } from '../src/actors/actorStore';
+import { computePhases } from '../src/engine/phases';
+import { playTurn } from '../src/engine/engine';
+import { createActorFromTemplate, getTemplate, getTemplateName } from '../src/actors/templateRegistry';
+import { loadGame, parseSavedGame, saveGame, savedGameToJson } from '../src/engine/save';
+
+/**
+ * Plays some turns from the given state.
+ */
+function play(world: World, actors: ActorStore, turns: number): [World, ActorStore] {
+    const phases = computePhases(world, actors);
+    for (let i = 0; i < turns; i++)
+        [world, actors] = playTurn(world, actors, phases);
+    return [world, actors];
+}
+
+describe('Save tests', () => {
+    describe('template registry', () => {
+        test('finds templates by name and the template of an actor', () => {
+            expect(getTemplate("hole")?.name).toBe("Hole");
+            expect(getTemplate("toString")).toBeUndefined();
+            expect(getTemplateName(createActorFromTemplate("gusteauWithPan", createPosition(1, 2)))).toBe("gusteauWithPan");
+        });
+
+        test('refuses unknown templates', () => {
+            expect(() => createActorFromTemplate("skinner", createPosition(1, 2))).toThrow('Unknown template "skinner"');
+        });
+    });
+
+    describe('saveGame and loadGame', () => {
+        test('store the template, the position and the health of the actors', () => {
+            const saved = saveGame(...loadLevel(kitchen, { seed: 3 }));
+            expect(saved.actors[0]).toEqual({ id: 0, template: "worktop", position: createPosition(0, 10), health: 1000 });
+            expect(parseSavedGame(savedGameToJson(saved))).toEqual(saved);
+            expect(() => parseSavedGame("{}")).toThrow("Invalid save file");
+        });
+
+        test('keep the targeting policy set by the player only', () => {
+            const [world] = loadLevel(kitchen, { seed: 3 });
+            const [set, unset] = [setTargeting(createActorFromTemplate("gusteauWithPan", createPosition(1, 1)), "NEAREST"), createActorFromTemplate("angryGusteauWithPan", createPosition(2, 1))];
+            const saved = saveGame(world, createActorStore(arrayToList([set, unset])));
+            expect(saved.actors.map((anActor) => anActor.targeting)).toEqual(["NEAREST", undefined]);
+            expect(listToArray(storeToList(loadGame(saved)[1])).map(getTargeting)).toEqual(["NEAREST", "FARTHEST_ALONG_PATH"]);
+        });
+
+        test('resume a game as if it had never been paused', () => {
+            const [world1, actors1] = play(...loadLevel(kitchen, { seed: 3 }), 6);
+            const [pausedWorld, pausedActors] = play(...loadLevel(kitchen, { seed: 3 }), 2);
+            const [loadedWorld, loadedActors] = loadGame(parseSavedGame(savedGameToJson(saveGame(pausedWorld, pausedActors))));
+            const [world2, actors2] = play(loadedWorld, loadedActors, 4);
+            expect(world2.rng).toEqual(world1.rng);
+            expect(JSON.stringify(storeToList(actors2))).toBe(JSON.stringify(storeToList(actors1)));
+        });
+
+        test('number the new actors as if the game had never been paused when the newest actor died before the save', () => {
+            const [world, actors] = play(...loadLevel(kitchen, { seed: 3 }), 2);
+            const newest = listToArray(storeToList(actors)).reduce((acc, anActor) => anActor.id > acc.id ? anActor : acc);
+            const pausedActors = removeStoredActor(actors, newest.id);
+            const saved = savedGameToJson(saveGame(world, pausedActors));
+            const [world1, actors1] = play(world, pausedActors, 4);
+            const [world2, actors2] = play(...loadGame(parseSavedGame(saved)), 4);
+            expect(world2.rng).toEqual(world1.rng);
+            expect(JSON.stringify(storeToList(actors2))).toBe(JSON.stringify(storeToList(actors1)));
+        });
+    });
+});
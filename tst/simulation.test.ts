@@ -0,0 +1,37 @@
+import { describe, expect, test } from '@jest/globals';
+import { formatReport, simulateGame, simulateGames } from '../src/engine/simulation';
+import { kitchen } from '../src/world/kitchen';
+
+describe('Simulation tests', () => {
+    describe('simulateGame', () => {
+        test('plays until the game is over or the maximum number of turns', () => {
+            expect(simulateGame(kitchen, 0, 2).turns).toBeLessThanOrEqual(2);
+            const result = simulateGame(kitchen, 0, 1000);
+            expect(result.winner).not.toBe("NONE");
+            expect(result.appeared["Linguini"]).toBe(1);
+        });
+    });
+
+    describe('simulateGames', () => {
+        test('sums up the results of every game', () => {
+            const report = simulateGames(kitchen, 3, 0, 1000);
+            expect(report.games).toBe(3);
+            expect(report.wins.TOWER + report.wins.ENEMY + report.wins.NONE).toBe(3);
+            expect(report.winRatio).toBe(report.wins.TOWER / 3);
+            expect(report.survival["Worktop"].rate).toBe(1);
+        });
+
+        test('returns the same report for the same seed', () => {
+            expect(simulateGames(kitchen, 2, 7, 1000)).toEqual(simulateGames(kitchen, 2, 7, 1000));
+        });
+    });
+
+    describe('formatReport', () => {
+        test('prints the win ratio, the average length and the survival rates', () => {
+            const text = formatReport(simulateGames(kitchen, 1, 0, 1000));
+            expect(text).toContain("Tower wins:");
+            expect(text).toContain("Average length:");
+            expect(text).toContain("Worktop: 100.0%");
+        });
+    });
+});
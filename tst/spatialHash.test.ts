@@ -0,0 +1,76 @@
+import { describe, expect, test } from '@jest/globals';
+import { Actor, getActorsAtPos, getAllActorsInRange, getNeighbors } from '../src/actors/actors';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { storeToList } from '../src/actors/actorStore';
+import { getActorsInRadius, getSpatialHash } from '../src/world/spatialHash';
+import { Position, createPosition, positionDistance, positionEquals, positionKey } from '../src/common/position';
+import { List, arrayToList, emptyList, listToArray } from '../src/common/list';
+import { createRng, randomInt } from '../src/common/random';
+import { loadLevel } from '../src/world/level';
+import { kitchen } from '../src/world/kitchen';
+import { computePhases } from '../src/engine/phases';
+import { playTurn } from '../src/engine/engine';
+
+/**
+ * The brute-force queries, walking through every actor.
+ */
+const bruteAtPos = (actors: List<Actor>, pos: Position): Actor[] => listToArray(actors).filter((anActor) => positionEquals(anActor.position, pos));
+const bruteInRange = (actors: List<Actor>, actor: Actor, range: number): Actor[] =>
+    listToArray(actors).filter((elt) => positionDistance(elt.position, actor.position) <= range && elt.id !== actor.id).reverse();
+const bruteNeighbors = (anActor: Actor, actors: List<Actor>): Actor[] =>
+    [[1, 1], [1, 0], [1, -1], [0, 1], [0, -1], [-1, 1], [-1, 0], [-1, -1]].flatMap(([dx, dy]) =>
+        bruteAtPos(actors, createPosition(anActor.position.x + dx, anActor.position.y + dy)));
+
+const ids = (actors: Actor[]) => actors.map((anActor) => anActor.id);
+const radii = [0, 1, Math.SQRT2, 1.5, 3, 100, Infinity];
+
+/**
+ * Checks that the queries answer like the brute-force ones around every actor of a list and around a few other cells.
+ */
+function expectSameQueries(actors: List<Actor>, cells: Position[]): void {
+    const array = listToArray(actors);
+    const probes = [...array, ...cells.map((pos) => createActorFromTemplate("remyWithSpoon", pos))];
+    probes.forEach((probe) => {
+        expect(ids(listToArray(getActorsAtPos(actors, probe.position)))).toEqual(ids(bruteAtPos(actors, probe.position)));
+        expect(ids(listToArray(getNeighbors(probe, actors)))).toEqual(ids(bruteNeighbors(probe, actors)));
+        radii.forEach((range) => expect(ids(listToArray(getAllActorsInRange(actors, probe, range)))).toEqual(ids(bruteInRange(actors, probe, range))));
+    });
+}
+
+describe('Spatial hash tests', () => {
+    test('gives the same actors as the brute-force queries during a game', () => {
+        const [world, levelActors] = loadLevel(kitchen, { seed: 3 });
+        const phases = computePhases(world, levelActors);
+        const [, actors] = [1, 2, 3, 4, 5, 6].reduce(([aWorld, store]) => playTurn(aWorld, store, phases), [world, levelActors]);
+        expectSameQueries(storeToList(actors), [createPosition(-3, -3), createPosition(40, 2)]);
+    });
+
+    test('gives the same actors as the brute-force queries with negative cells and crowded cells', () => {
+        const templates = ["remyWithSpoon", "worktop", "marmite", "linguini"];
+        const positioned: Actor[] = [];
+        let rng = createRng(42);
+        for (let i = 0; i < 60; i++) {
+            const [template, rng1] = randomInt(rng, templates.length);
+            const [x, rng2] = randomInt(rng1, 9);
+            const [y, rng3] = randomInt(rng2, 7);
+            positioned.push(createActorFromTemplate(templates[template], createPosition(x - 4, y - 3)));
+            rng = rng3;
+        }
+        expectSameQueries(arrayToList(positioned), [createPosition(0, 0), createPosition(-6, 5), createPosition(12, -9)]);
+    });
+
+    test('finds nothing in an empty list and builds the hash once for a list', () => {
+        const lonely = createActorFromTemplate("remyWithSpoon", createPosition(0, 0));
+        expect(getAllActorsInRange(emptyList(), lonely, Infinity)).toEqual(emptyList());
+        expect(getNeighbors(lonely, emptyList())).toEqual(emptyList());
+        const actors = arrayToList([lonely, createActorFromTemplate("worktop", createPosition(2, 0))]);
+        expect(getSpatialHash(actors)).toBe(getSpatialHash(actors));
+        expect(ids(listToArray(getActorsInRadius(getSpatialHash(actors), createPosition(1, 0), 1)))).toEqual(ids(listToArray(actors)));
+    });
+
+    test('gives a different key to every cell', () => {
+        const keys = Array.from({ length: 21 * 21 }, (_, i) => positionKey(createPosition(i % 21 - 10, Math.floor(i / 21) - 10)));
+        expect(new Set(keys).size).toBe(keys.length);
+        expect(keys.every((key) => Number.isSafeInteger(key) && key >= 0)).toBe(true);
+    });
+});
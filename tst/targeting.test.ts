@@ -0,0 +1,55 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { Actor, setLifePoint } from '../src/actors/actors';
+import { createActorFromTemplate, getTemplate } from '../src/actors/templateRegistry';
+import { TargetingPolicy, chooseTarget, getTargeting, isTargetingPolicy, setTargeting } from '../src/actors/targeting';
+import { createPosition } from '../src/common/position';
+import { arrayToList, emptyList } from '../src/common/list';
+
+const world = buildWorld(createPosition(6, 0), { seed: 3 });
+const actor = (template: string, x: number): Actor => createActorFromTemplate(template, createPosition(x, 0));
+
+/**
+ * A corridor with the tower at 2 and the goal at 6: the closest enemy at 1, the enemy at 4 is the closest to the goal.
+ */
+const tower = actor("gusteauWithPan", 2);
+const goal = actor("linguini", 6);
+const near = setLifePoint(actor("remyWithSpoon", 1), 150);
+const advanced = actor("hungryRemyWithSpoon", 4);
+const wounded = setLifePoint(actor("remyWithSpoon", 0), 50);
+const actors = arrayToList([tower, goal, near, advanced, wounded]);
+const candidates = arrayToList([near, advanced, wounded]);
+
+const targetOf = (policy: TargetingPolicy) => chooseTarget(setTargeting(tower, policy), candidates, world, actors)?.id;
+
+describe('Targeting tests', () => {
+    test('the policies are declared by the templates, RANDOM by default', () => {
+        expect(getTargeting(tower)).toBe("RANDOM");
+        expect(getTargeting(<Actor>getTemplate("veryAngryGusteauWithPan"))).toBe("STRONGEST");
+        expect(getTargeting(goal)).toBe("RANDOM");
+        expect(isTargetingPolicy("NEAREST")).toBe(true);
+        expect(isTargetingPolicy("WEAKEST")).toBe(false);
+    });
+
+    test('each policy picks its target', () => {
+        expect(targetOf("NEAREST")).toBe(near.id);
+        expect(targetOf("FARTHEST_ALONG_PATH")).toBe(advanced.id);
+        expect(targetOf("LOWEST_HEALTH")).toBe(wounded.id);
+        expect(targetOf("HIGHEST_HEALTH")).toBe(advanced.id);
+        expect(targetOf("STRONGEST")).toBe(advanced.id);
+    });
+
+    test('ties go to the smallest id and no candidate means no target', () => {
+        const twin = setLifePoint(actor("remyWithSpoon", 3), 50);
+        expect(chooseTarget(setTargeting(tower, "LOWEST_HEALTH"), arrayToList([twin, wounded]), world, actors)?.id).toBe(wounded.id);
+        expect(chooseTarget(setTargeting(tower, "NEAREST"), emptyList(), world, actors)).toBeUndefined();
+        expect(chooseTarget(tower, emptyList(), world, actors)).toBeUndefined();
+    });
+
+    test('the random policy draws its target from the generator of the world', () => {
+        const randomTarget = (seed: number) => chooseTarget(setTargeting(tower, "RANDOM"), candidates, buildWorld(createPosition(6, 0), { seed: seed }), actors)?.id;
+        expect(targetOf("RANDOM")).toBe(wounded.id);
+        expect(randomTarget(2)).toBe(near.id);
+        expect(randomTarget(4)).toBe(advanced.id);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildWorld } from '../src/world/world';
+import { getTerrainAt, getTerrainCost, TerrainCell } from '../src/world/terrain';
+import { Level, loadLevel, parseLevel, validateLevel } from '../src/world/level';
+import { getVertexByPos } from '../src/common/vertex';
+import { pathfinding } from '../src/common/graph';
+import { createPosition } from '../src/common/position';
+import { arrayToList, emptyList, listToArray } from '../src/common/list';
+
+const sauce = (x: number, y: number): TerrainCell => ({ type: "STICKY_SAUCE", position: createPosition(x, y) });
+
+/**
+ * Paths from (0, 1) to (4, 1) in a 5x3 world, with sticky sauce on the straight line.
+ */
+const pathThrough = (terrain: TerrainCell[]) => {
+    const world = buildWorld(createPosition(4, 2), { terrain: terrain });
+    return listToArray(pathfinding(createPosition(0, 1), createPosition(4, 1), world.graph, emptyList())).map((vertex) => vertex.pos);
+};
+
+describe('Terrain tests', () => {
+    test('gives the floor to the cells that are not listed', () => {
+        const terrain = arrayToList([sauce(1, 1), { type: "CARPET", position: createPosition(2, 2) } as TerrainCell]);
+        expect(getTerrainAt(terrain, createPosition(1, 1))).toBe("STICKY_SAUCE");
+        expect(getTerrainAt(terrain, createPosition(0, 0))).toBe("FLOOR");
+        expect(getTerrainCost(terrain, createPosition(2, 2))).toBe(2);
+    });
+
+    test('sets the weight of the edges leading to a cell to the cost of its terrain', () => {
+        const world = buildWorld(createPosition(2, 2), { terrain: [sauce(1, 1)] });
+        const weights = listToArray(getVertexByPos(world.graph.vertexes, createPosition(1, 0)).adj)
+            .map((edge) => [edge.vertex.pos.x, edge.vertex.pos.y, edge.weight]);
+        expect(weights).toEqual(expect.arrayContaining([[1, 1, 5], [0, 0, 1], [2, 0, 1]]));
+    });
+
+    test('makes enemies route around slow terrain', () => {
+        expect(pathThrough([])).toHaveLength(5);
+        const path = pathThrough([sauce(2, 1)]);
+        expect(path).toHaveLength(7);
+        expect(path).not.toContainEqual(createPosition(2, 1));
+    });
+
+    test('goes through slow terrain when it is the only way', () => {
+        expect(pathThrough([sauce(2, 0), sauce(2, 1), sauce(2, 2)])).toContainEqual(expect.objectContaining({ x: 2 }));
+        expect(pathThrough([sauce(2, 0), sauce(2, 1), sauce(2, 2)])).toHaveLength(5);
+    });
+
+    describe('levels', () => {
+        const level: Level = { ...parseLevel('{ "size": { "x": 4, "y": 2 } }'), terrain: [sauce(2, 1)] };
+
+        test('are loaded with their terrain', () => {
+            const [world] = loadLevel(level);
+            expect(getTerrainAt(world.terrain, createPosition(2, 1))).toBe("STICKY_SAUCE");
+        });
+
+        test('refuse unknown terrains, cells out of the world and cells listed twice', () => {
+            expect(validateLevel({ ...level, terrain: [{ type: "LAVA", position: createPosition(0, 0) } as unknown as TerrainCell] }))
+                .toEqual(['terrain[0]: unknown terrain "LAVA"']);
+            expect(validateLevel({ ...level, terrain: [sauce(5, 0)] })).toEqual(["terrain[0]: position (5, 0) is out of the world"]);
+            expect(validateLevel({ ...level, terrain: [sauce(1, 1), sauce(1, 1)] })).toEqual(["terrain[1]: position (1, 1) already has a terrain"]);
+        });
+    });
+});
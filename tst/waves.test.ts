@@ -0,0 +1,111 @@
+import { describe, expect, test } from '@jest/globals';
+import { Level, loadLevel } from '../src/world/level';
+import { consumeSpawn, getDueSpawns, scheduleWaves, wavesAreExhausted } from '../src/world/waves';
+import { World, buildWorld } from '../src/world/world';
+import { createPosition } from '../src/common/position';
+import { List, arrayToList, isEmpty, listLength, listMap, listToArray } from '../src/common/list';
+import { Actor, getActorsByType } from '../src/actors/actors';
+import { createActorFromTemplate } from '../src/actors/templateRegistry';
+import { createActorStore, emptyActorStore, getStoredActorsByType, removeStoredActor, storeToList } from '../src/actors/actorStore';
+import { computePhases, Phase } from '../src/engine/phases';
+import { gameIsOver, playTurn } from '../src/engine/engine';
+
+const spawner = createPosition(0, 0);
+
+const level: Level = {
+    size: createPosition(6, 0),
+    walls: [],
+    spawners: [{ template: "hole", position: spawner }],
+    enemies: [],
+    towers: [],
+    goals: [{ template: "linguini", position: createPosition(6, 0) }],
+    waves: [{ turn: 2, spawner: spawner, template: "remyWithSpoon", count: 2, delay: 2 }],
+    budget: 0,
+    terrain: [],
+    connectivity: 4,
+    phases: []
+};
+
+describe('Waves tests', () => {
+    describe('scheduleWaves', () => {
+        test('expands the waves into enemies sorted by turn', () => {
+            const spawns = scheduleWaves([
+                { turn: 1, spawner: spawner, template: "remyWithSpoon", count: 3, delay: 4 },
+                { turn: 2, spawner: spawner, template: "remyThrowingCheese", count: 1, delay: 0 }
+            ]);
+            expect(listToArray(spawns).map((spawn) => [spawn.turn, spawn.template])).toEqual([
+                [1, "remyWithSpoon"], [2, "remyThrowingCheese"], [5, "remyWithSpoon"], [9, "remyWithSpoon"]
+            ]);
+        });
+    });
+
+    describe('getDueSpawns and consumeSpawn', () => {
+        test('give the enemies of a spawner once their turn has come', () => {
+            const other = createPosition(1, 0);
+            const world = { ...buildWorld(createPosition(4, 4)), turn: 3, spawns: arrayToList([
+                { turn: 1, spawner: other, template: "remyWithSpoon" },
+                { turn: 2, spawner: spawner, template: "remyThrowingCheese" },
+                { turn: 3, spawner: spawner, template: "hungryRemyWithSpoon" },
+                { turn: 4, spawner: spawner, template: "remyWithSpoon" }
+            ]) };
+            expect(listToArray(getDueSpawns(world, spawner)).map((spawn) => spawn.template)).toEqual(["remyThrowingCheese", "hungryRemyWithSpoon"]);
+            const consumed = consumeSpawn(consumeSpawn(world, spawner), spawner);
+            expect(isEmpty(getDueSpawns(consumed, spawner))).toBe(true);
+            expect(listLength(consumed.spawns)).toBe(2);
+            expect(wavesAreExhausted(consumeSpawn(consumeSpawn(consumed, other), spawner))).toBe(false);
+        });
+    });
+
+    describe('playing waves', () => {
+        test('spawns the enemies at their turn and ends the game once the waves are exhausted', () => {
+            let [world, actors] = loadLevel(level);
+            const phases = computePhases(world, actors);
+            const enemies: number[] = [];
+            for (let i = 0; i < 4; i++) {
+                expect(gameIsOver(world, actors)).toBe("NONE");
+                [world, actors] = playTurn(world, actors, phases);
+                enemies.push(listLength(getStoredActorsByType(actors, "ENEMY")));
+            }
+            expect(world.turn).toBe(4);
+            expect(enemies).toEqual([0, 1, 1, 2]);
+            expect(wavesAreExhausted(world)).toBe(true);
+            expect(gameIsOver(world, listToArray(getStoredActorsByType(actors, "ENEMY")).reduce((acc, enemy) => removeStoredActor(acc, enemy.id), actors))).toBe("TOWER");
+        });
+    });
+
+    describe('spawn phase', () => {
+        const spawnPhase = <Phase>listToArray(computePhases(buildWorld(createPosition(4, 4)), emptyActorStore())).find((aPhase) => aPhase.funcName === "spawn");
+        const other = createPosition(4, 4);
+        const world = { ...buildWorld(createPosition(4, 4)), turn: 1, spawns: arrayToList([
+            { turn: 1, spawner: spawner, template: "remyWithSpoon" },
+            { turn: 1, spawner: other, template: "remyWithSpoon" },
+            { turn: 1, spawner: spawner, template: "remyThrowingCheese" },
+            { turn: 1, spawner: spawner, template: "hungryRemyWithSpoon" }
+        ]) };
+        const spawn = (aWorld: World, actors: List<Actor>) => spawnPhase.resolver(aWorld, createActorStore(actors), listMap((anActor) => anActor.actions.spawn?.(anActor, aWorld, actors), actors));
+
+        test('emits every due enemy of every spawner, on the spawner then on its free neighbours', () => {
+            const holes = arrayToList([createActorFromTemplate("hole", spawner), createActorFromTemplate("hole", other)]);
+            const [newWorld, store] = spawn(world, holes);
+            const actors = storeToList(store);
+            expect(listToArray(getActorsByType(actors, "ENEMY")).map((anActor) => [anActor.name, anActor.position]))
+                .toEqual(expect.arrayContaining([
+                    ["Remy with a Spoon", spawner], ["Remy Throwing Cheese", createPosition(1, 0)],
+                    ["Hungry Remy with a Spoon", createPosition(0, 1)], ["Remy with a Spoon", other]
+                ]));
+            expect(listLength(getActorsByType(actors, "ENEMY"))).toBe(4);
+            expect(wavesAreExhausted(newWorld)).toBe(true);
+        });
+
+        test('refuses the spawns on taken cells and keeps them for the next turns', () => {
+            const actors = arrayToList([createActorFromTemplate("hole", spawner), createActorFromTemplate("worktop", createPosition(1, 0)), createActorFromTemplate("remyWithSpoon", createPosition(0, 1))]);
+            const [newWorld, newActors] = spawnPhase.resolver(world, createActorStore(actors), arrayToList([arrayToList([
+                createActorFromTemplate("remyWithSpoon", spawner),
+                createActorFromTemplate("remyThrowingCheese", createPosition(1, 0)),
+                createActorFromTemplate("hungryRemyWithSpoon", createPosition(0, 1))
+            ]), undefined, undefined]));
+            expect(listLength(getStoredActorsByType(newActors, "ENEMY"))).toBe(2);
+            expect(listToArray(getDueSpawns(newWorld, spawner)).map((due) => due.template)).toEqual(["remyThrowingCheese", "hungryRemyWithSpoon"]);
+        });
+    });
+});
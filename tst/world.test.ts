@@ -1,5 +1,5 @@
 import { getVertex } from "../src/common/edge";
-import { emptyList } from "../src/common/list";
+import { emptyList, listLength, listToArray } from "../src/common/list";
 import { createPosition, positionEquals } from "../src/common/position";
 import { Vertex } from "../src/common/vertex";
 import { World, buildWorld, getDimensionWorld, isInWorld, getVertexByPos } from "../src/world/world";
@@ -12,6 +12,18 @@ describe('All world tests', () => {
             expect(w.size).toEqual(createPosition(20, 20));
             expect(w.graph.n).toBe(20 * 20);
         });
+
+        it('should seed the random number generator of the world', () => {
+            expect(buildWorld(createPosition(5, 5), { seed: 42 }).rng).toEqual(buildWorld(createPosition(5, 5), { seed: 42 }).rng);
+            expect(buildWorld(createPosition(5, 5), { seed: 42 }).rng).not.toEqual(buildWorld(createPosition(5, 5), { seed: 43 }).rng);
+        });
+
+        it('should build large worlds', () => {
+            const w: World = buildWorld(createPosition(200, 200));
+            expect(listLength(w.graph.vertexes)).toBe(201 * 201);
+            const corner: Vertex = getVertexByPos(w.graph.vertexes, createPosition(200, 200));
+            expect(listToArray(corner.adj).map((edge) => getVertex(edge).pos)).toEqual([createPosition(199, 200), createPosition(200, 199)]);
+        });
     });
 
     describe('isInWorld', () => {